@@ -0,0 +1,18 @@
+export default {
+  testEnvironment: 'node',
+  transform: {
+    '^.+\\.(t|j)sx?$': ['@swc/jest'],
+  },
+  extensionsToTreatAsEsm: ['.ts'],
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
+  transformIgnorePatterns: [
+    'node_modules/(?!(@aztec)/)',
+  ],
+  testMatch: ['**/tests/**/*.test.ts'],
+  testTimeout: 120000,
+  // Suites share the local network's test accounts and the pxe-test-data directory, so run them one at a time
+  maxWorkers: 1,
+  verbose: true,
+};
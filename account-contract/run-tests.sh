@@ -0,0 +1,54 @@
+#!/bin/bash
+# Script to run the full test suite for the password account contract
+
+set -e  # Exit on error
+
+echo "========================================="
+echo "Password Account Test Runner"
+echo "========================================="
+
+# Check if the Aztec local network is running
+echo ""
+echo "Checking Aztec local network status..."
+if ! curl -s http://localhost:8080/status > /dev/null 2>&1; then
+    echo "❌ Aztec local network is not running!"
+    echo "Please start it with: aztec start --local-network"
+    exit 1
+else
+    echo "✅ Aztec local network is running"
+fi
+
+# Compile the account contracts
+echo ""
+echo "Compiling PasswordAccount and MultiFactorAccount contracts..."
+rm -rf target multi-factor-account/target
+yarn compile
+echo "✅ Contracts compiled"
+
+# Install dependencies
+echo ""
+echo "Installing dependencies..."
+yarn install
+echo "✅ Dependencies installed"
+
+# Check the TypeScript entrypoint encoder against the compiled ABI
+echo ""
+echo "Checking entrypoint ABI..."
+yarn check-abi
+echo "✅ Entrypoint ABI matches the encoder"
+
+# Start from a clean wallet, accounts from previous runs don't exist on a fresh local network
+rm -rf pxe-test-data
+
+# Run the tests
+echo ""
+echo "========================================="
+echo "Running test suite..."
+echo "========================================="
+echo ""
+yarn test
+
+echo ""
+echo "========================================="
+echo "✅ All tests completed!"
+echo "========================================="
@@ -0,0 +1,114 @@
+import { describe, expect, test, beforeAll } from '@jest/globals';
+import { getInitialTestAccountsData } from '@aztec/accounts/testing';
+import type { AztecAddress } from '@aztec/aztec.js/addresses';
+import { Fr } from '@aztec/aztec.js/fields';
+import { createAztecNodeClient, waitForNode, type AztecNode } from '@aztec/aztec.js/node';
+import { TestWallet } from '@aztec/test-wallet/server';
+import { computePasswordAccountAddress, deployPasswordAccount } from '../ts/password-account-deployment';
+import { PasswordAccountContract } from '../ts/password-account-entrypoint';
+import { NODE_URL, bridgeFeeJuice, getFeeJuiceContract, waitForFeeJuiceClaim } from './utils';
+
+// Bridging waits for the L1 to L2 message to reach an L2 block, on top of mining the deployment
+const TEST_TIMEOUT = 600000; // 10 minutes
+
+const PASSWORD = new Fr(789789789789);
+const BRIDGED_AMOUNT = 10n ** 21n;
+
+describe('PasswordAccount deployment paying with FeeJuice', () => {
+  let aztecNode: AztecNode;
+  let wallet: TestWallet;
+  let funderAddress: AztecAddress;
+
+  beforeAll(async () => {
+    console.log(`Connecting to Aztec node at ${NODE_URL}`);
+    aztecNode = createAztecNodeClient(NODE_URL);
+    await waitForNode(aztecNode);
+
+    wallet = await TestWallet.create(aztecNode, { dataDirectory: 'pxe-test-data' });
+
+    // Prefunded test account, used to claim FeeJuice for others and to push L1 to L2 messages into blocks
+    const [funderData] = await getInitialTestAccountsData();
+    const funder = await wallet.createSchnorrAccount(funderData.secret, funderData.salt, funderData.signingKey);
+    funderAddress = funder.address;
+  }, TEST_TIMEOUT);
+
+  async function advanceBlock() {
+    const feeJuice = await getFeeJuiceContract(wallet);
+    await feeJuice.methods.balance_of_public(funderAddress).send({ from: funderAddress }).wait();
+  }
+
+  async function getFeeJuiceBalance(address: AztecAddress): Promise<bigint> {
+    const feeJuice = await getFeeJuiceContract(wallet);
+    return feeJuice.methods.balance_of_public(address).simulate({ from: funderAddress });
+  }
+
+  test('deploys with PREEXISTING_FEE_JUICE', async () => {
+    const passwordAccountContract = new PasswordAccountContract(PASSWORD);
+    const secret = Fr.random();
+    const salt = Fr.random();
+    const address = await computePasswordAccountAddress(passwordAccountContract, { secret, salt });
+
+    console.log('Bridging and claiming FeeJuice for', address.toString());
+    const claim = await bridgeFeeJuice(aztecNode, address, BRIDGED_AMOUNT);
+    await waitForFeeJuiceClaim(aztecNode, claim, advanceBlock);
+    const feeJuice = await getFeeJuiceContract(wallet);
+    await feeJuice.methods
+      .claim(address, claim.claimAmount, claim.claimSecret, claim.messageLeafIndex)
+      .send({ from: funderAddress })
+      .wait();
+    expect(await getFeeJuiceBalance(address)).toBe(BRIDGED_AMOUNT);
+
+    const { address: deployedAddress, receipt } = await deployPasswordAccount(wallet, passwordAccountContract, {
+      secret,
+      salt,
+      fee: { mode: 'preexisting-fee-juice' },
+    });
+
+    expect(receipt.status).toBe('success');
+    expect(deployedAddress).toEqual(address);
+    expect(await aztecNode.getContract(address)).toBeDefined();
+    expect(await getFeeJuiceBalance(address)).toBe(BRIDGED_AMOUNT - receipt.transactionFee!);
+  }, TEST_TIMEOUT);
+
+  test('deploys with FEE_JUICE_WITH_CLAIM', async () => {
+    const passwordAccountContract = new PasswordAccountContract(PASSWORD);
+    const secret = Fr.random();
+    const salt = Fr.random();
+    const address = await computePasswordAccountAddress(passwordAccountContract, { secret, salt });
+
+    console.log('Bridging FeeJuice for', address.toString());
+    const claim = await bridgeFeeJuice(aztecNode, address, BRIDGED_AMOUNT);
+    await waitForFeeJuiceClaim(aztecNode, claim, advanceBlock);
+
+    const { address: deployedAddress, receipt } = await deployPasswordAccount(wallet, passwordAccountContract, {
+      secret,
+      salt,
+      fee: { mode: 'fee-juice-with-claim', claim },
+    });
+
+    expect(receipt.status).toBe('success');
+    expect(deployedAddress).toEqual(address);
+    expect(await aztecNode.getContract(address)).toBeDefined();
+    expect(await getFeeJuiceBalance(address)).toBe(BRIDGED_AMOUNT - receipt.transactionFee!);
+  }, TEST_TIMEOUT);
+
+  test('deployed account pays for its own txs afterwards', async () => {
+    const passwordAccountContract = new PasswordAccountContract(PASSWORD);
+    const secret = Fr.random();
+    const salt = Fr.random();
+    const address = await computePasswordAccountAddress(passwordAccountContract, { secret, salt });
+
+    const claim = await bridgeFeeJuice(aztecNode, address, BRIDGED_AMOUNT);
+    await waitForFeeJuiceClaim(aztecNode, claim, advanceBlock);
+    await deployPasswordAccount(wallet, passwordAccountContract, {
+      secret,
+      salt,
+      fee: { mode: 'fee-juice-with-claim', claim },
+    });
+
+    // No payment method: the wallet routes the tx through the password entrypoint with PREEXISTING_FEE_JUICE
+    const feeJuice = await getFeeJuiceContract(wallet);
+    const receipt = await feeJuice.methods.balance_of_public(address).send({ from: address }).wait();
+    expect(receipt.status).toBe('success');
+  }, TEST_TIMEOUT);
+});
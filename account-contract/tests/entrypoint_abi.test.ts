@@ -0,0 +1,83 @@
+import { describe, expect, test } from '@jest/globals';
+import { type AbiType, type FunctionAbi, getFunctionArtifactByName } from '@aztec/stdlib/abi';
+import { MultiFactorAccountContractArtifact } from '../ts/multi-factor-account-contract-artifact';
+import { PasswordAccountContractArtifact } from '../ts/password-account-contract-artifact';
+import {
+  ENTRYPOINT_FUNCTION_NAME,
+  EntrypointAbiMismatchError,
+  SESSION_ENTRYPOINT_FUNCTION_NAME,
+  assertEntrypointAbiMatches,
+  diffEntrypointAbi,
+} from '../ts/password-account-entrypoint-abi';
+
+const entrypointAbi = (functionName = ENTRYPOINT_FUNCTION_NAME): FunctionAbi =>
+  structuredClone(getFunctionArtifactByName(PasswordAccountContractArtifact, functionName));
+
+/** The `FunctionCall` struct inside the `app_payload` parameter of `abi`. */
+const functionCallType = (abi: FunctionAbi): Extract<AbiType, { kind: 'struct' }> => {
+  const appPayload = abi.parameters[0].type as Extract<AbiType, { kind: 'struct' }>;
+  const functionCalls = appPayload.fields.find(field => field.name === 'function_calls')!.type;
+  return (functionCalls as Extract<AbiType, { kind: 'array' }>).type as Extract<AbiType, { kind: 'struct' }>;
+};
+
+describe('Entrypoint ABI drift check', () => {
+  test('accepts the compiled entrypoints', () => {
+    expect(diffEntrypointAbi(entrypointAbi())).toEqual([]);
+    expect(diffEntrypointAbi(entrypointAbi(SESSION_ENTRYPOINT_FUNCTION_NAME))).toEqual([]);
+    expect(
+      diffEntrypointAbi(getFunctionArtifactByName(MultiFactorAccountContractArtifact, ENTRYPOINT_FUNCTION_NAME)),
+    ).toEqual([]);
+  });
+
+  test('reports a renamed or retyped parameter', () => {
+    const abi = entrypointAbi();
+    abi.parameters[1].name = 'fee_payment';
+    abi.parameters[2].type = { kind: 'integer', sign: 'unsigned', width: 8 };
+
+    expect(diffEntrypointAbi(abi)).toEqual([
+      '  - [1] fee_payment_method: u8',
+      '  + [1] fee_payment: u8',
+      '  - [2] cancellable: bool',
+      '  + [2] cancellable: u8',
+    ]);
+  });
+
+  test('reports a missing parameter', () => {
+    const abi = entrypointAbi();
+    abi.parameters.pop();
+
+    expect(diffEntrypointAbi(abi)).toEqual(['  - [2] cancellable: bool']);
+  });
+
+  test('reports a struct field that changed while the struct path did not', () => {
+    const renamed = entrypointAbi();
+    functionCallType(renamed).fields.find(field => field.name === 'is_static')!.name = 'static_call';
+    const retyped = entrypointAbi();
+    functionCallType(retyped).fields.find(field => field.name === 'is_public')!.type = { kind: 'field' };
+    const removed = entrypointAbi();
+    functionCallType(removed).fields = functionCallType(removed).fields.filter(
+      field => field.name !== 'hide_msg_sender',
+    );
+
+    for (const abi of [renamed, retyped, removed]) {
+      const diff = diffEntrypointAbi(abi);
+      expect(diff).toHaveLength(2);
+      expect(diff[0]).toMatch(/^ {2}- \[0\] app_payload: struct aztec::authwit::entrypoint::app::AppPayload \{/);
+      expect(diff[1]).toMatch(/^ {2}\+ \[0\] app_payload: struct aztec::authwit::entrypoint::app::AppPayload \{/);
+    }
+    expect(diffEntrypointAbi(renamed)[1]).toContain('static_call: bool');
+    expect(diffEntrypointAbi(retyped)[1]).toContain('is_public: field');
+    expect(diffEntrypointAbi(removed)[1]).not.toContain('hide_msg_sender');
+  });
+
+  test('reports a changed field of the session grant', () => {
+    const abi = entrypointAbi(SESSION_ENTRYPOINT_FUNCTION_NAME);
+    const session = abi.parameters[3].type as Extract<AbiType, { kind: 'struct' }>;
+    session.fields.find(field => field.name === 'expires_at')!.type = { kind: 'integer', sign: 'unsigned', width: 32 };
+
+    const diff = diffEntrypointAbi(abi);
+    expect(diff).toHaveLength(2);
+    expect(diff[1]).toContain('expires_at: u32');
+    expect(() => assertEntrypointAbiMatches(abi)).toThrow(EntrypointAbiMismatchError);
+  });
+});
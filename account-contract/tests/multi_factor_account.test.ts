@@ -0,0 +1,125 @@
+import { describe, expect, test, beforeAll } from '@jest/globals';
+import type { AztecAddress } from '@aztec/aztec.js/addresses';
+import type { Contract } from '@aztec/aztec.js/contracts';
+import type { SponsoredFeePaymentMethod } from '@aztec/aztec.js/fee';
+import { Fr, GrumpkinScalar } from '@aztec/aztec.js/fields';
+import { createAztecNodeClient, waitForNode, type AztecNode } from '@aztec/aztec.js/node';
+import type { AuthWitnessProvider } from '@aztec/entrypoints/interfaces';
+import { computeAuthWitMessageHash } from '@aztec/stdlib/auth-witness';
+import type { CompleteAddress } from '@aztec/stdlib/contract';
+import { TestWallet } from '@aztec/test-wallet/server';
+import { MultiFactorAccountContract, MultiFactorAuthWitnessProvider } from '../ts/multi-factor-account';
+import {
+  INVALID_ENTRYPOINT_SIGNATURE,
+  IS_VALID_SELECTOR,
+  NODE_URL,
+  deployPasswordAccount,
+  getFeeJuiceContract,
+  setupSponsoredFPC,
+} from './utils';
+
+const TEST_TIMEOUT = 300000; // 5 minutes
+
+const PASSWORD = new Fr(147147147147);
+const WRONG_PASSWORD = new Fr(258258258258);
+
+/**
+ * Resolves to the victim's address, since the constructor args are built from the real keys, but signs with a guessed
+ * device key and the stolen password.
+ */
+class PasswordOnlyAccountContract extends MultiFactorAccountContract {
+  constructor(
+    realSigningKey: GrumpkinScalar,
+    private stolenPassword: Fr,
+    private guessedSigningKey: GrumpkinScalar,
+  ) {
+    super(realSigningKey, stolenPassword);
+  }
+
+  override getAuthWitnessProvider(_address: CompleteAddress): AuthWitnessProvider {
+    return new MultiFactorAuthWitnessProvider(this.guessedSigningKey, this.stolenPassword);
+  }
+}
+
+describe('MultiFactorAccount', () => {
+  let aztecNode: AztecNode;
+  let wallet: TestWallet;
+  let signingKey: GrumpkinScalar;
+  let accountAddress: AztecAddress;
+  let account: Contract;
+  let secret: Fr;
+  let salt: Fr;
+  let sponsoredPaymentMethod: SponsoredFeePaymentMethod;
+
+  beforeAll(async () => {
+    console.log(`Connecting to Aztec node at ${NODE_URL}`);
+    aztecNode = createAztecNodeClient(NODE_URL);
+    await waitForNode(aztecNode);
+
+    wallet = await TestWallet.create(aztecNode, { dataDirectory: 'pxe-test-data' });
+    sponsoredPaymentMethod = await setupSponsoredFPC(wallet);
+
+    signingKey = GrumpkinScalar.random();
+    ({ address: accountAddress, account, secret, salt } = await deployPasswordAccount(
+      wallet,
+      new MultiFactorAccountContract(signingKey, PASSWORD),
+      sponsoredPaymentMethod,
+    ));
+    console.info('MultiFactorAccount address:', accountAddress.toString());
+  }, TEST_TIMEOUT);
+
+  // verify_private_authwit is called by the account itself here, so the account is also the consumer of the message
+  async function verifyAuthWitWith(signingKey: GrumpkinScalar, password: Fr) {
+    const innerHash = Fr.random();
+    const messageHash = await computeAuthWitMessageHash(
+      { consumer: accountAddress, innerHash },
+      await wallet.getChainInfo(),
+    );
+    const authWitness = await new MultiFactorAuthWitnessProvider(signingKey, password).createAuthWit(messageHash);
+    return account.methods
+      .verify_private_authwit(innerHash)
+      .simulate({ from: accountAddress, authWitnesses: [authWitness] });
+  }
+
+  test('sends txs authorized with both factors', async () => {
+    const feeJuice = await getFeeJuiceContract(wallet);
+    const receipt = await feeJuice.methods
+      .balance_of_public(accountAddress)
+      .send({ from: accountAddress, fee: { paymentMethod: sponsoredPaymentMethod } })
+      .wait();
+    expect(receipt.status).toBe('success');
+  }, TEST_TIMEOUT);
+
+  test('accepts a witness signed with the device key and the password', async () => {
+    expect(await verifyAuthWitWith(signingKey, PASSWORD)).toBe(IS_VALID_SELECTOR);
+  }, TEST_TIMEOUT);
+
+  test('rejects a witness signed with the device key but the wrong password', async () => {
+    await expect(verifyAuthWitWith(signingKey, WRONG_PASSWORD)).rejects.toThrow('Message not authorized by account');
+  }, TEST_TIMEOUT);
+
+  test('rejects a witness signed with the password but another device key', async () => {
+    await expect(verifyAuthWitWith(GrumpkinScalar.random(), PASSWORD)).rejects.toThrow(
+      'Message not authorized by account',
+    );
+  }, TEST_TIMEOUT);
+
+  test('entrypoint rejects a payload from a wallet that only holds the password', async () => {
+    // A second wallet holding the same account, but a stolen password and none of the device key
+    const attackerWallet = await TestWallet.create(aztecNode, { dataDirectory: 'pxe-test-data/password-only' });
+    await attackerWallet.createAccount({
+      secret,
+      contract: new PasswordOnlyAccountContract(signingKey, PASSWORD, GrumpkinScalar.random()),
+      salt,
+    });
+    const attackerPaymentMethod = await setupSponsoredFPC(attackerWallet);
+
+    const feeJuice = await getFeeJuiceContract(attackerWallet);
+    await expect(
+      feeJuice.methods
+        .balance_of_public(accountAddress)
+        .send({ from: accountAddress, fee: { paymentMethod: attackerPaymentMethod } })
+        .wait(),
+    ).rejects.toThrow(INVALID_ENTRYPOINT_SIGNATURE);
+  }, TEST_TIMEOUT);
+});
@@ -0,0 +1,156 @@
+import { describe, expect, test, beforeAll, jest } from '@jest/globals';
+import { getInitialTestAccountsData } from '@aztec/accounts/testing';
+import type { AztecAddress } from '@aztec/aztec.js/addresses';
+import { computeInnerAuthWitHashFromAction } from '@aztec/aztec.js/authorization';
+import type { Contract } from '@aztec/aztec.js/contracts';
+import type { SponsoredFeePaymentMethod } from '@aztec/aztec.js/fee';
+import { Fr } from '@aztec/aztec.js/fields';
+import { createAztecNodeClient, waitForNode, type AztecNode } from '@aztec/aztec.js/node';
+import { GeneratorIndex } from '@aztec/constants';
+import { poseidon2HashWithSeparator } from '@aztec/foundation/crypto/poseidon';
+import { TokenContract } from '@aztec/noir-contracts.js/Token';
+import { siloNullifier } from '@aztec/stdlib/hash';
+import { TestWallet } from '@aztec/test-wallet/server';
+import { PasswordAccountContract, PasswordAccountInterface } from '../ts/password-account-entrypoint';
+import { INVALID_ENTRYPOINT_SIGNATURE, NODE_URL, deployPasswordAccount, setupSponsoredFPC } from './utils';
+
+const TEST_TIMEOUT = 300000; // 5 minutes
+
+const PASSWORD = new Fr(321321321321);
+const WRONG_PASSWORD = new Fr(999999999999);
+const MINT_AMOUNT = 1000n;
+
+describe('PasswordAccount end to end', () => {
+  let aztecNode: AztecNode;
+  let wallet: TestWallet;
+  let accountAddress: AztecAddress;
+  let account: Contract;
+  let secret: Fr;
+  let salt: Fr;
+  let spenderAddress: AztecAddress;
+  let sponsoredPaymentMethod: SponsoredFeePaymentMethod;
+  let token: TokenContract;
+
+  beforeAll(async () => {
+    console.log(`Connecting to Aztec node at ${NODE_URL}`);
+    aztecNode = createAztecNodeClient(NODE_URL);
+    await waitForNode(aztecNode);
+
+    wallet = await TestWallet.create(aztecNode, { dataDirectory: 'pxe-test-data' });
+    sponsoredPaymentMethod = await setupSponsoredFPC(wallet);
+
+    // Prefunded test account that consumes authwits issued by the password account
+    const [spenderData] = await getInitialTestAccountsData();
+    const spender = await wallet.createSchnorrAccount(spenderData.secret, spenderData.salt, spenderData.signingKey);
+    spenderAddress = spender.address;
+
+    ({ address: accountAddress, account, secret, salt } = await deployPasswordAccount(
+      wallet,
+      new PasswordAccountContract(PASSWORD),
+      sponsoredPaymentMethod,
+    ));
+    console.info('PasswordAccount address:', accountAddress.toString());
+
+    token = await TokenContract.deploy(wallet, accountAddress, 'PasswordToken', 'PWT', 18)
+      .send({ from: accountAddress, fee: { paymentMethod: sponsoredPaymentMethod } })
+      .deployed();
+    console.log('Token deployed at', token.address.toString());
+  }, TEST_TIMEOUT);
+
+  test('deploys a PasswordAccount', async () => {
+    expect(await aztecNode.getContract(accountAddress)).toBeDefined();
+  }, TEST_TIMEOUT);
+
+  test('sends txs through PasswordAccountInterface', async () => {
+    // The wallet builds every tx request of the account through the interface its contract hands out
+    const createTxExecutionRequest = jest.spyOn(PasswordAccountInterface.prototype, 'createTxExecutionRequest');
+    try {
+      const receipt = await token.methods
+        .mint_to_private(accountAddress, MINT_AMOUNT)
+        .send({ from: accountAddress, fee: { paymentMethod: sponsoredPaymentMethod } })
+        .wait();
+      expect(receipt.status).toBe('success');
+
+      expect(createTxExecutionRequest).toHaveBeenCalled();
+      const txRequest = await createTxExecutionRequest.mock.results.at(-1)!.value;
+      expect(txRequest.origin).toEqual(accountAddress);
+    } finally {
+      createTxExecutionRequest.mockRestore();
+    }
+
+    const balance = await token.methods.balance_of_private(accountAddress).simulate({ from: accountAddress });
+    expect(balance).toBe(MINT_AMOUNT);
+  }, TEST_TIMEOUT);
+
+  test('entrypoint rejects a payload signed with the wrong password', async () => {
+    // A second wallet holding the same account, but unlocked with the wrong password
+    const wrongWallet = await TestWallet.create(aztecNode, { dataDirectory: 'pxe-test-data/wrong-password' });
+    await wrongWallet.createAccount({ secret, contract: new PasswordAccountContract(WRONG_PASSWORD, PASSWORD), salt });
+    const wrongPaymentMethod = await setupSponsoredFPC(wrongWallet);
+    await wrongWallet.registerContract((await aztecNode.getContract(token.address))!, TokenContract.artifact);
+
+    const wrongToken = await TokenContract.at(token.address, wrongWallet);
+    await expect(
+      wrongToken.methods
+        .mint_to_public(accountAddress, 1n)
+        .send({ from: accountAddress, fee: { paymentMethod: wrongPaymentMethod } })
+        .wait(),
+    ).rejects.toThrow(INVALID_ENTRYPOINT_SIGNATURE);
+  }, TEST_TIMEOUT);
+
+  test('lookup_validity returns false once the authwit nullifier is spent', async () => {
+    const action = token.methods.transfer_in_private(accountAddress, spenderAddress, 10n, Fr.random());
+    const call = await action.getFunctionCall();
+    const witness = await wallet.createAuthWit(accountAddress, { caller: spenderAddress, call });
+    const innerHash = await computeInnerAuthWitHashFromAction(spenderAddress, call);
+
+    const lookupValidity = () =>
+      account.methods
+        .lookup_validity(token.address, innerHash)
+        .simulate({ from: accountAddress, authWitnesses: [witness] });
+
+    expect(await lookupValidity()).toBe(true);
+
+    // The token consumes the authwit, emitting its nullifier
+    const receipt = await action.send({ from: spenderAddress, authWitnesses: [witness] }).wait();
+    expect(receipt.status).toBe('success');
+
+    expect(await lookupValidity()).toBe(false);
+  }, TEST_TIMEOUT);
+
+  // The wallet always builds txs with a random nonce and as not cancellable, so the options it passes to
+  // PasswordAccountInterface are replaced with a known nonce and the `cancellable` flag under test
+  async function sendMint(cancellable: boolean) {
+    const txNonce = Fr.random();
+    const { createTxExecutionRequest } = PasswordAccountInterface.prototype;
+    let requestsBuilt = 0;
+    const createTxExecutionRequestSpy = jest
+      .spyOn(PasswordAccountInterface.prototype, 'createTxExecutionRequest')
+      .mockImplementation(function (this: PasswordAccountInterface, exec, gasSettings, options) {
+        requestsBuilt++;
+        return createTxExecutionRequest.call(this, exec, gasSettings, { ...options, txNonce, cancellable });
+      });
+    const receipt = await token.methods
+      .mint_to_public(accountAddress, 1n)
+      .send({ from: accountAddress, fee: { paymentMethod: sponsoredPaymentMethod } })
+      .wait()
+      .finally(() => createTxExecutionRequestSpy.mockRestore());
+    expect(receipt.status).toBe('success');
+    expect(requestsBuilt).toBeGreaterThan(0);
+
+    const txEffect = await aztecNode.getTxEffect(receipt.txHash);
+    const txNullifier = await siloNullifier(
+      accountAddress,
+      await poseidon2HashWithSeparator([txNonce], GeneratorIndex.TX_NULLIFIER),
+    );
+    return txEffect!.data.nullifiers.some(nullifier => nullifier.equals(txNullifier));
+  }
+
+  test('cancellable txs emit the tx nullifier', async () => {
+    expect(await sendMint(true)).toBe(true);
+  }, TEST_TIMEOUT);
+
+  test('non-cancellable txs do not emit the tx nullifier', async () => {
+    expect(await sendMint(false)).toBe(false);
+  }, TEST_TIMEOUT);
+});
@@ -0,0 +1,148 @@
+import { describe, expect, test, beforeAll } from '@jest/globals';
+import type { AztecAddress } from '@aztec/aztec.js/addresses';
+import { Contract } from '@aztec/aztec.js/contracts';
+import type { SponsoredFeePaymentMethod } from '@aztec/aztec.js/fee';
+import { Fr } from '@aztec/aztec.js/fields';
+import { createAztecNodeClient, waitForNode } from '@aztec/aztec.js/node';
+import { AccountFeePaymentMethodOptions } from '@aztec/entrypoints/account';
+import type { AuthWitnessProvider } from '@aztec/entrypoints/interfaces';
+import { AuthWitness, computeAuthWitMessageHash } from '@aztec/stdlib/auth-witness';
+import type { CompleteAddress } from '@aztec/stdlib/contract';
+import { GasSettings } from '@aztec/stdlib/gas';
+import { ExecutionPayload } from '@aztec/stdlib/tx';
+import { TestWallet } from '@aztec/test-wallet/server';
+import {
+  PasswordAccountContract,
+  PasswordAccountContractArtifact,
+  PasswordAccountEntrypoint,
+  PasswordAuthWitnessProvider,
+} from '../ts/password-account-entrypoint';
+import {
+  INVALID_ENTRYPOINT_SIGNATURE,
+  IS_VALID_SELECTOR,
+  NODE_URL,
+  deployPasswordAccount,
+  setupSponsoredFPC,
+} from './utils';
+
+const TEST_TIMEOUT = 120000; // 120 seconds
+
+const PASSWORD = new Fr(123123123123);
+
+/** Auth witness provider that answers every request with a witness captured for some other message. */
+class ReplayingAuthWitnessProvider implements AuthWitnessProvider {
+  constructor(private captured: AuthWitness) {}
+
+  createAuthWit(messageHash: Fr): Promise<AuthWitness> {
+    return Promise.resolve(new AuthWitness(messageHash, this.captured.witness));
+  }
+}
+
+/** A PasswordAccountContract whose entrypoint replays a captured witness instead of signing with the password. */
+class ReplayingPasswordAccountContract extends PasswordAccountContract {
+  constructor(password: Fr, private captured: AuthWitness) {
+    super(password);
+  }
+
+  override getAuthWitnessProvider(_address: CompleteAddress): AuthWitnessProvider {
+    return new ReplayingAuthWitnessProvider(this.captured);
+  }
+}
+
+describe('PasswordAccount auth witnesses', () => {
+  let wallet: TestWallet;
+  let accountAddress: AztecAddress;
+  let account: Contract;
+  let secret: Fr;
+  let salt: Fr;
+  let sponsoredPaymentMethod: SponsoredFeePaymentMethod;
+
+  beforeAll(async () => {
+    console.log(`Connecting to Aztec node at ${NODE_URL}`);
+    const aztecNode = createAztecNodeClient(NODE_URL);
+    await waitForNode(aztecNode);
+
+    wallet = await TestWallet.create(aztecNode, { dataDirectory: 'pxe-test-data' });
+    sponsoredPaymentMethod = await setupSponsoredFPC(wallet);
+
+    ({ address: accountAddress, account, secret, salt } = await deployPasswordAccount(
+      wallet,
+      new PasswordAccountContract(PASSWORD),
+      sponsoredPaymentMethod,
+    ));
+    console.info('PasswordAccount address:', accountAddress.toString());
+  }, TEST_TIMEOUT);
+
+  async function computeMessageHash(innerHash: Fr) {
+    const chainInfo = await wallet.getChainInfo();
+    return computeAuthWitMessageHash({ consumer: accountAddress, innerHash }, chainInfo);
+  }
+
+  test('entrypoint args and witnesses never contain the raw password', async () => {
+    const entrypoint = new PasswordAccountEntrypoint(accountAddress, new PasswordAuthWitnessProvider(PASSWORD));
+    const txRequest = await entrypoint.createTxExecutionRequest(ExecutionPayload.empty(), GasSettings.empty(), {
+      txNonce: Fr.random(),
+      cancellable: false,
+      feePaymentMethodOptions: AccountFeePaymentMethodOptions.EXTERNAL,
+    });
+
+    const args = txRequest.argsOfCalls.flatMap(hashedValues => hashedValues.values);
+    const witnesses = txRequest.authWitnesses.flatMap(authWitness => authWitness.witness);
+    expect(args.some(value => value.equals(PASSWORD))).toBe(false);
+    expect(witnesses.some(value => value.equals(PASSWORD))).toBe(false);
+  }, TEST_TIMEOUT);
+
+  test('accepts a witness created for the message being verified', async () => {
+    const innerHash = Fr.random();
+    const authWitness = await new PasswordAuthWitnessProvider(PASSWORD).createAuthWit(
+      await computeMessageHash(innerHash),
+    );
+
+    const result = await account.methods
+      .verify_private_authwit(innerHash)
+      .simulate({ from: accountAddress, authWitnesses: [authWitness] });
+
+    expect(result).toBe(IS_VALID_SELECTOR);
+  }, TEST_TIMEOUT);
+
+  test('rejects a witness replayed against a different message', async () => {
+    const captured = await new PasswordAuthWitnessProvider(PASSWORD).createAuthWit(
+      await computeMessageHash(Fr.random()),
+    );
+
+    const otherInnerHash = Fr.random();
+    const replayed = new AuthWitness(await computeMessageHash(otherInnerHash), captured.witness);
+
+    await expect(
+      account.methods
+        .verify_private_authwit(otherInnerHash)
+        .simulate({ from: accountAddress, authWitnesses: [replayed] }),
+    ).rejects.toThrow('Message not authorized by account');
+  }, TEST_TIMEOUT);
+
+  test('rejects an entrypoint payload authorized with a witness captured for another payload', async () => {
+    const captured = await new PasswordAuthWitnessProvider(PASSWORD).createAuthWit(Fr.random());
+
+    // A second wallet holding the same account, but whose entrypoint replays the captured witness
+    const aztecNode = createAztecNodeClient(NODE_URL);
+    const replayingWallet = await TestWallet.create(aztecNode, { dataDirectory: 'pxe-test-data/replaying' });
+    await replayingWallet.createAccount({
+      secret,
+      contract: new ReplayingPasswordAccountContract(PASSWORD, captured),
+      salt,
+    });
+    await setupSponsoredFPC(replayingWallet);
+
+    const innerHash = Fr.random();
+    const authWitness = await new PasswordAuthWitnessProvider(PASSWORD).createAuthWit(
+      await computeMessageHash(innerHash),
+    );
+    const replayingAccount = await Contract.at(accountAddress, PasswordAccountContractArtifact, replayingWallet);
+
+    await expect(
+      replayingAccount.methods
+        .verify_private_authwit(innerHash)
+        .simulate({ from: accountAddress, authWitnesses: [authWitness] }),
+    ).rejects.toThrow(INVALID_ENTRYPOINT_SIGNATURE);
+  }, TEST_TIMEOUT);
+});
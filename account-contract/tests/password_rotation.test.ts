@@ -0,0 +1,167 @@
+import { describe, expect, test, beforeAll } from '@jest/globals';
+import { getInitialTestAccountsData } from '@aztec/accounts/testing';
+import type { AztecAddress } from '@aztec/aztec.js/addresses';
+import { Contract } from '@aztec/aztec.js/contracts';
+import type { SponsoredFeePaymentMethod } from '@aztec/aztec.js/fee';
+import { Fr } from '@aztec/aztec.js/fields';
+import { createAztecNodeClient, waitForNode, type AztecNode } from '@aztec/aztec.js/node';
+import { computeAuthWitMessageHash } from '@aztec/stdlib/auth-witness';
+import { TestWallet } from '@aztec/test-wallet/server';
+import {
+  PasswordAccountContract,
+  PasswordAccountContractArtifact,
+  PASSWORD_ROTATION_DELAY,
+  PasswordAuthWitnessProvider,
+  computePasswordPublicKey,
+} from '../ts/password-account-entrypoint';
+import {
+  INVALID_ENTRYPOINT_SIGNATURE,
+  IS_VALID_SELECTOR,
+  NODE_URL,
+  deployPasswordAccount,
+  getFeeJuiceContract,
+  setupSponsoredFPC,
+  warpL2Time,
+} from './utils';
+
+// Rotation warps past PASSWORD_ROTATION_DELAY, on top of mining the txs
+const TEST_TIMEOUT = 600000; // 10 minutes
+
+const OLD_PASSWORD = new Fr(123123123123);
+const NEW_PASSWORD = new Fr(456456456456);
+const WRONG_PASSWORD = new Fr(789789789789);
+
+describe('PasswordAccount password rotation', () => {
+  let aztecNode: AztecNode;
+  let wallet: TestWallet;
+  let passwordAccountContract: PasswordAccountContract;
+  let accountAddress: AztecAddress;
+  let account: Contract;
+  let secret: Fr;
+  let salt: Fr;
+  let sponsoredPaymentMethod: SponsoredFeePaymentMethod;
+  let fillerAddress: AztecAddress;
+
+  beforeAll(async () => {
+    console.log(`Connecting to Aztec node at ${NODE_URL}`);
+    aztecNode = createAztecNodeClient(NODE_URL);
+    await waitForNode(aztecNode);
+
+    wallet = await TestWallet.create(aztecNode, { dataDirectory: 'pxe-test-data' });
+    sponsoredPaymentMethod = await setupSponsoredFPC(wallet);
+
+    passwordAccountContract = new PasswordAccountContract(OLD_PASSWORD);
+    ({ address: accountAddress, account, secret, salt } = await deployPasswordAccount(
+      wallet,
+      passwordAccountContract,
+      sponsoredPaymentMethod,
+    ));
+    console.info('PasswordAccount address:', accountAddress.toString());
+
+    // A prefunded test account sends the txs that mine blocks after warping past the rotation delay, since txs of the
+    // account itself could straddle the switch to the new password
+    const [{ secret: fillerSecret, salt: fillerSalt, signingKey }] = await getInitialTestAccountsData();
+    fillerAddress = (await wallet.createSchnorrAccount(fillerSecret, fillerSalt, signingKey)).address;
+  }, TEST_TIMEOUT);
+
+  // verify_private_authwit is called by the account itself here, so the account is also the consumer of the message
+  async function createAuthWitWith(password: Fr, innerHash: Fr) {
+    const chainInfo = await wallet.getChainInfo();
+    const messageHash = await computeAuthWitMessageHash({ consumer: accountAddress, innerHash }, chainInfo);
+    return new PasswordAuthWitnessProvider(password).createAuthWit(messageHash);
+  }
+
+  async function expectPasswordPublicKey(password: Fr) {
+    const publicKey = await account.methods.get_password_public_key().simulate({ from: accountAddress });
+    const expectedPublicKey = await computePasswordPublicKey(password);
+    expect(new Fr(publicKey.x)).toEqual(expectedPublicKey.x);
+    expect(new Fr(publicKey.y)).toEqual(expectedPublicKey.y);
+  }
+
+  test('old password authorizes the account before rotation', async () => {
+    const innerHash = Fr.random();
+    const result = await account.methods
+      .verify_private_authwit(innerHash)
+      .simulate({ from: accountAddress, authWitnesses: [await createAuthWitWith(OLD_PASSWORD, innerHash)] });
+
+    expect(result).toBe(IS_VALID_SELECTOR);
+  }, TEST_TIMEOUT);
+
+  test('rejects a rotation signed with the wrong old password', async () => {
+    // Same account address, but its entrypoint signs with a key derived from a password the account never had
+    const wrongPasswordContract = new PasswordAccountContract(WRONG_PASSWORD, OLD_PASSWORD);
+    const wrongWallet = await TestWallet.create(aztecNode, { dataDirectory: 'pxe-test-data/wrong-password' });
+    const wrongAccount = await wrongWallet.createAccount({ secret, contract: wrongPasswordContract, salt });
+    expect(wrongAccount.address.equals(accountAddress)).toBe(true);
+    const paymentMethod = await setupSponsoredFPC(wrongWallet);
+
+    await expect(
+      wrongPasswordContract.rotatePassword(NEW_PASSWORD, {
+        wallet: wrongWallet,
+        address: accountAddress,
+        fee: { paymentMethod },
+      }),
+    ).rejects.toThrow(INVALID_ENTRYPOINT_SIGNATURE);
+
+    await expectPasswordPublicKey(OLD_PASSWORD);
+  }, TEST_TIMEOUT);
+
+  test('rotatePassword switches the account to the new password', async () => {
+    const receipt = await passwordAccountContract.rotatePassword(NEW_PASSWORD, {
+      wallet,
+      address: accountAddress,
+      fee: { paymentMethod: sponsoredPaymentMethod },
+    });
+    expect(receipt.status).toBe('success');
+
+    const feeJuice = await getFeeJuiceContract(wallet);
+    await passwordAccountContract.waitForPasswordRotation(NEW_PASSWORD, {
+      wallet,
+      address: accountAddress,
+      advanceBlock: () =>
+        warpL2Time(aztecNode, PASSWORD_ROTATION_DELAY, () =>
+          feeJuice.methods.balance_of_public(fillerAddress).send({ from: fillerAddress }).wait(),
+        ),
+    });
+
+    await expectPasswordPublicKey(NEW_PASSWORD);
+  }, TEST_TIMEOUT);
+
+  test('old password no longer authorizes verify_private_authwit', async () => {
+    const innerHash = Fr.random();
+    await expect(
+      account.methods
+        .verify_private_authwit(innerHash)
+        .simulate({ from: accountAddress, authWitnesses: [await createAuthWitWith(OLD_PASSWORD, innerHash)] }),
+    ).rejects.toThrow('Message not authorized by account');
+  }, TEST_TIMEOUT);
+
+  test('new password authorizes verify_private_authwit through the rotated entrypoint', async () => {
+    // The call itself goes through the entrypoint, which now signs with the in-memory rotated password
+    const innerHash = Fr.random();
+    const result = await account.methods
+      .verify_private_authwit(innerHash)
+      .simulate({ from: accountAddress, authWitnesses: [await createAuthWitWith(NEW_PASSWORD, innerHash)] });
+
+    expect(result).toBe(IS_VALID_SELECTOR);
+  }, TEST_TIMEOUT);
+
+  test('old password no longer authorizes the entrypoint', async () => {
+    // A separate wallet that still holds the old password in memory
+    const staleWallet = await TestWallet.create(aztecNode, { dataDirectory: 'pxe-test-data/stale' });
+    const staleAccount = await staleWallet.createAccount({
+      secret,
+      contract: new PasswordAccountContract(OLD_PASSWORD),
+      salt,
+    });
+    expect(staleAccount.address.equals(accountAddress)).toBe(true);
+
+    const accountFromStaleWallet = await Contract.at(accountAddress, PasswordAccountContractArtifact, staleWallet);
+    const innerHash = Fr.random();
+    await expect(
+      accountFromStaleWallet.methods
+        .verify_private_authwit(innerHash)
+        .simulate({ from: accountAddress, authWitnesses: [await createAuthWitWith(NEW_PASSWORD, innerHash)] }),
+    ).rejects.toThrow(INVALID_ENTRYPOINT_SIGNATURE);
+  }, TEST_TIMEOUT);
+});
@@ -0,0 +1,106 @@
+import { describe, expect, test, beforeAll } from '@jest/globals';
+import { getInitialTestAccountsData } from '@aztec/accounts/testing';
+import type { AztecAddress } from '@aztec/aztec.js/addresses';
+import type { CallIntent } from '@aztec/aztec.js/authorization';
+import type { SponsoredFeePaymentMethod } from '@aztec/aztec.js/fee';
+import { Fr } from '@aztec/aztec.js/fields';
+import { createAztecNodeClient, waitForNode } from '@aztec/aztec.js/node';
+import { TokenContract } from '@aztec/noir-contracts.js/Token';
+import { TestWallet } from '@aztec/test-wallet/server';
+import { PasswordAccountContract, type PasswordAccountInterface } from '../ts/password-account-entrypoint';
+import { NODE_URL, deployPasswordAccount, setupSponsoredFPC } from './utils';
+
+const TEST_TIMEOUT = 300000; // 5 minutes
+
+const PASSWORD = new Fr(654654654654);
+const MINT_AMOUNT = 1000n;
+const TRANSFER_AMOUNT = 10n;
+// Assertion of AuthRegistry `consume` when the action was not approved, or its approval was consumed or revoked
+const UNAUTHORIZED = 'unauthorized';
+
+describe('PasswordAccount public authwits', () => {
+  let wallet: TestWallet;
+  let accountAddress: AztecAddress;
+  let accountInterface: PasswordAccountInterface;
+  let spenderAddress: AztecAddress;
+  let sponsoredPaymentMethod: SponsoredFeePaymentMethod;
+  let token: TokenContract;
+
+  beforeAll(async () => {
+    console.log(`Connecting to Aztec node at ${NODE_URL}`);
+    const aztecNode = createAztecNodeClient(NODE_URL);
+    await waitForNode(aztecNode);
+
+    wallet = await TestWallet.create(aztecNode, { dataDirectory: 'pxe-test-data' });
+    sponsoredPaymentMethod = await setupSponsoredFPC(wallet);
+
+    const passwordAccountContract = new PasswordAccountContract(PASSWORD);
+    const deployment = await deployPasswordAccount(wallet, passwordAccountContract, sponsoredPaymentMethod);
+    accountAddress = deployment.address;
+    accountInterface = passwordAccountContract.getInterface(
+      await deployment.accountManager.getCompleteAddress(),
+      await wallet.getChainInfo(),
+    );
+    console.info('PasswordAccount address:', accountAddress.toString());
+
+    // Prefunded test account that transfers tokens in public on behalf of the password account
+    const [spenderData] = await getInitialTestAccountsData();
+    const spender = await wallet.createSchnorrAccount(spenderData.secret, spenderData.salt, spenderData.signingKey);
+    spenderAddress = spender.address;
+
+    token = await TokenContract.deploy(wallet, accountAddress, 'PasswordToken', 'PWT', 18)
+      .send({ from: accountAddress, fee: { paymentMethod: sponsoredPaymentMethod } })
+      .deployed();
+    await token.methods
+      .mint_to_public(accountAddress, MINT_AMOUNT)
+      .send({ from: accountAddress, fee: { paymentMethod: sponsoredPaymentMethod } })
+      .wait();
+    console.log('Token deployed at', token.address.toString());
+  }, TEST_TIMEOUT);
+
+  async function buildTransfer() {
+    const action = token.methods.transfer_in_public(accountAddress, spenderAddress, TRANSFER_AMOUNT, Fr.random());
+    const intent: CallIntent = { caller: spenderAddress, call: await action.getFunctionCall() };
+    return { action, intent };
+  }
+
+  test('rejects a public transfer that was never approved', async () => {
+    const { action } = await buildTransfer();
+    await expect(action.send({ from: spenderAddress }).wait()).rejects.toThrow(UNAUTHORIZED);
+  }, TEST_TIMEOUT);
+
+  test('an approved public transfer can be consumed once', async () => {
+    const { action, intent } = await buildTransfer();
+    expect(await accountInterface.isPublicAuthWitValid(wallet, intent)).toBe(false);
+
+    const receipt = await accountInterface.setPublicAuthWit(wallet, intent, {
+      fee: { paymentMethod: sponsoredPaymentMethod },
+    });
+    expect(receipt.status).toBe('success');
+    expect(await accountInterface.isPublicAuthWitValid(wallet, intent)).toBe(true);
+
+    const balanceBefore = await token.methods.balance_of_public(spenderAddress).simulate({ from: spenderAddress });
+    const transferReceipt = await action.send({ from: spenderAddress }).wait();
+    expect(transferReceipt.status).toBe('success');
+    const balanceAfter = await token.methods.balance_of_public(spenderAddress).simulate({ from: spenderAddress });
+    expect(balanceAfter - balanceBefore).toBe(TRANSFER_AMOUNT);
+
+    // Consuming the approval clears it from the registry
+    expect(await accountInterface.isPublicAuthWitValid(wallet, intent)).toBe(false);
+    await expect(action.send({ from: spenderAddress }).wait()).rejects.toThrow(UNAUTHORIZED);
+  }, TEST_TIMEOUT);
+
+  test('a revoked approval can no longer be consumed', async () => {
+    const { action, intent } = await buildTransfer();
+    await accountInterface.setPublicAuthWit(wallet, intent, { fee: { paymentMethod: sponsoredPaymentMethod } });
+    expect(await accountInterface.isPublicAuthWitValid(wallet, intent)).toBe(true);
+
+    const receipt = await accountInterface.revokePublicAuthWit(wallet, intent, {
+      fee: { paymentMethod: sponsoredPaymentMethod },
+    });
+    expect(receipt.status).toBe('success');
+    expect(await accountInterface.isPublicAuthWitValid(wallet, intent)).toBe(false);
+
+    await expect(action.send({ from: spenderAddress }).wait()).rejects.toThrow(UNAUTHORIZED);
+  }, TEST_TIMEOUT);
+});
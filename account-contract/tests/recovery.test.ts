@@ -0,0 +1,183 @@
+import { describe, expect, test, beforeAll } from '@jest/globals';
+import { getInitialTestAccountsData } from '@aztec/accounts/testing';
+import { AztecAddress } from '@aztec/aztec.js/addresses';
+import type { Contract } from '@aztec/aztec.js/contracts';
+import type { SponsoredFeePaymentMethod } from '@aztec/aztec.js/fee';
+import { Fr, type Point } from '@aztec/aztec.js/fields';
+import { createAztecNodeClient, waitForNode, type AztecNode } from '@aztec/aztec.js/node';
+import { retryUntil } from '@aztec/foundation/retry';
+import { TestWallet } from '@aztec/test-wallet/server';
+import {
+  PASSWORD_ROTATION_DELAY,
+  PasswordAccountContract,
+  computePasswordPublicKey,
+} from '../ts/password-account-entrypoint';
+import { MAX_GUARDIANS, RECOVERY_DELAY, RecoveryClient, cancelRecovery, setGuardians } from '../ts/recovery-client';
+import { NODE_URL, deployPasswordAccount, getFeeJuiceContract, setupSponsoredFPC, warpL2Time } from './utils';
+
+// Recovery waits for RECOVERY_DELAY and warps past PASSWORD_ROTATION_DELAY, on top of mining the txs
+const TEST_TIMEOUT = 900000; // 15 minutes
+
+const PASSWORD = new Fr(369369369369);
+const RECOVERED_PASSWORD = new Fr(741741741741);
+const THRESHOLD = 2;
+
+describe('PasswordAccount guardian recovery', () => {
+  let aztecNode: AztecNode;
+  let wallet: TestWallet;
+  let accountAddress: AztecAddress;
+  let account: Contract;
+  let secret: Fr;
+  let salt: Fr;
+  let initialPasswordPublicKey: Point;
+  let guardians: AztecAddress[];
+  let sponsoredPaymentMethod: SponsoredFeePaymentMethod;
+
+  beforeAll(async () => {
+    console.log(`Connecting to Aztec node at ${NODE_URL}`);
+    aztecNode = createAztecNodeClient(NODE_URL);
+    await waitForNode(aztecNode);
+
+    wallet = await TestWallet.create(aztecNode, { dataDirectory: 'pxe-test-data' });
+    sponsoredPaymentMethod = await setupSponsoredFPC(wallet);
+
+    const passwordAccountContract = new PasswordAccountContract(PASSWORD);
+    ({ address: accountAddress, account, secret, salt } = await deployPasswordAccount(
+      wallet,
+      passwordAccountContract,
+      sponsoredPaymentMethod,
+    ));
+    // Kept with the secret and salt, the account can't be loaded without it once the password is lost
+    initialPasswordPublicKey = await passwordAccountContract.getInitialPasswordPublicKey();
+    console.info('PasswordAccount address:', accountAddress.toString());
+
+    // The prefunded test accounts act as guardians, and pay for the recovery txs they send
+    const accountsData = await getInitialTestAccountsData();
+    guardians = [];
+    for (const { secret, salt, signingKey } of accountsData.slice(0, 3)) {
+      guardians.push((await wallet.createSchnorrAccount(secret, salt, signingKey)).address);
+    }
+
+    await setGuardians(wallet, accountAddress, guardians, THRESHOLD, { fee: { paymentMethod: sponsoredPaymentMethod } });
+  }, TEST_TIMEOUT);
+
+  // The local network only mines blocks when it has txs, so push some through until the recovery delay has passed
+  async function waitUntilExecutable(client: RecoveryClient) {
+    const feeJuice = await getFeeJuiceContract(wallet);
+    await retryUntil(
+      async () => {
+        if ((await client.getProgress()).phase === 'executable') {
+          return true;
+        }
+        await feeJuice.methods.balance_of_public(guardians[0]).send({ from: guardians[0] }).wait();
+        return false;
+      },
+      'recovery delay to pass',
+      RECOVERY_DELAY * 5,
+      5,
+    );
+  }
+
+  test('registers the guardians and threshold', async () => {
+    const client = new RecoveryClient(wallet, aztecNode, accountAddress, RECOVERED_PASSWORD);
+    const progress = await client.getProgress();
+
+    expect(progress.phase).toBe('collecting');
+    expect(progress.threshold).toBe(THRESHOLD);
+    expect(progress.guardians).toEqual(guardians);
+    expect(guardians.length).toBeLessThanOrEqual(MAX_GUARDIANS);
+  }, TEST_TIMEOUT);
+
+  test('rejects a recovery with too few approvals', async () => {
+    const client = new RecoveryClient(wallet, aztecNode, accountAddress, RECOVERED_PASSWORD);
+    await client.collectApproval(guardians[0]);
+    expect((await client.getProgress()).approvedBy).toEqual([guardians[0]]);
+
+    await expect(client.submit({ from: guardians[0] })).rejects.toThrow('Not enough guardian approvals: 1 of 2');
+
+    // The contract enforces the threshold too, for submitters that skip the client's check
+    const newPublicKey = await computePasswordPublicKey(RECOVERED_PASSWORD);
+    const nonce = Fr.random();
+    const singleApproval = new RecoveryClient(wallet, aztecNode, accountAddress, RECOVERED_PASSWORD, nonce);
+    const witness = await wallet.createAuthWit(guardians[0], {
+      consumer: accountAddress,
+      innerHash: await singleApproval.getApprovalInnerHash(),
+    });
+    const approvers = [guardians[0], ...Array(MAX_GUARDIANS - 1).fill(AztecAddress.ZERO)];
+    await expect(
+      account.methods
+        .initiate_recovery(newPublicKey.x, newPublicKey.y, nonce, approvers)
+        .send({ from: guardians[0], authWitnesses: [witness] })
+        .wait(),
+    ).rejects.toThrow('Not enough guardian approvals');
+
+    expect((await client.getProgress()).phase).toBe('collecting');
+  }, TEST_TIMEOUT);
+
+  test('the owner can cancel a pending recovery', async () => {
+    const client = new RecoveryClient(wallet, aztecNode, accountAddress, RECOVERED_PASSWORD);
+    await client.collectApproval(guardians[0]);
+    await client.collectApproval(guardians[1]);
+
+    const receipt = await client.submit({ from: guardians[0] });
+    expect(receipt.status).toBe('success');
+    expect((await client.getProgress()).phase).toBe('pending');
+    await expect(client.complete({ from: guardians[0] })).rejects.toThrow('Recovery delay has not passed');
+
+    await cancelRecovery(wallet, accountAddress, { fee: { paymentMethod: sponsoredPaymentMethod } });
+    expect((await client.getProgress()).phase).toBe('collecting');
+    await expect(client.complete({ from: guardians[0] })).rejects.toThrow('No recovery pending');
+
+    // The original password still authorizes the account
+    const publicKey = await account.methods.get_password_public_key().simulate({ from: accountAddress });
+    expect(new Fr(publicKey.x)).toEqual((await computePasswordPublicKey(PASSWORD)).x);
+  }, TEST_TIMEOUT);
+
+  test('guardians recover the account to a new password', async () => {
+    const client = new RecoveryClient(wallet, aztecNode, accountAddress, RECOVERED_PASSWORD);
+    await client.collectApproval(guardians[1]);
+    await client.collectApproval(guardians[2]);
+
+    await client.submit({ from: guardians[1] });
+    await waitUntilExecutable(client);
+
+    const receipt = await client.complete({ from: guardians[1] });
+    expect(receipt.status).toBe('success');
+    expect((await client.getProgress()).phase).toBe('collecting');
+
+    // The recovered password is scheduled like a rotation, and takes effect once the rotation delay has passed. The
+    // local network's clock is warped past it rather than waited out.
+    const expectedPublicKey = await computePasswordPublicKey(RECOVERED_PASSWORD);
+    const feeJuice = await getFeeJuiceContract(wallet);
+    await retryUntil(
+      async () => {
+        const publicKey = await account.methods.get_password_public_key().simulate({ from: accountAddress });
+        if (new Fr(publicKey.x).equals(expectedPublicKey.x) && new Fr(publicKey.y).equals(expectedPublicKey.y)) {
+          return true;
+        }
+        await warpL2Time(aztecNode, PASSWORD_ROTATION_DELAY, () =>
+          feeJuice.methods.balance_of_public(guardians[1]).send({ from: guardians[1] }).wait(),
+        );
+        return false;
+      },
+      'recovered password to take effect',
+      600,
+      5,
+    );
+
+    // A wallet that only knows the recovered password, and the initial one's public key, can use the account again
+    const recoveredWallet = await TestWallet.create(aztecNode, { dataDirectory: 'pxe-test-data/recovered' });
+    await recoveredWallet.createAccount({
+      secret,
+      contract: new PasswordAccountContract(RECOVERED_PASSWORD, initialPasswordPublicKey),
+      salt,
+    });
+    const recoveredPaymentMethod = await setupSponsoredFPC(recoveredWallet);
+    const recoveredFeeJuice = await getFeeJuiceContract(recoveredWallet);
+    const recoveredReceipt = await recoveredFeeJuice.methods
+      .balance_of_public(accountAddress)
+      .send({ from: accountAddress, fee: { paymentMethod: recoveredPaymentMethod } })
+      .wait();
+    expect(recoveredReceipt.status).toBe('success');
+  }, TEST_TIMEOUT);
+});
@@ -0,0 +1,190 @@
+import { describe, expect, test, beforeAll } from '@jest/globals';
+import type { AztecAddress } from '@aztec/aztec.js/addresses';
+import type { SponsoredFeePaymentMethod } from '@aztec/aztec.js/fee';
+import { Fr } from '@aztec/aztec.js/fields';
+import { createAztecNodeClient, waitForNode, type AztecNode } from '@aztec/aztec.js/node';
+import { retryUntil } from '@aztec/foundation/retry';
+import { TokenContract } from '@aztec/noir-contracts.js/Token';
+import { FunctionSelector } from '@aztec/stdlib/abi';
+import { TestWallet, proveInteraction } from '@aztec/test-wallet/server';
+import {
+  PasswordAccountContract,
+  PasswordAuthWitnessProvider,
+  SessionAccountContract,
+  computePasswordPublicKey,
+} from '../ts/password-account-entrypoint';
+import { type SessionScope, SessionKey, SessionScopeError } from '../ts/session-key';
+import { NODE_URL, deployPasswordAccount, setupSponsoredFPC } from './utils';
+
+const TEST_TIMEOUT = 300000; // 5 minutes
+
+const PASSWORD = new Fr(852852852852);
+const WRONG_PASSWORD = new Fr(963963963963);
+// Seconds a session stays valid for, enough for the whole suite on a local network
+const SESSION_LENGTH = 3600n;
+// Seconds a session stays valid for when the test waits for it to expire. Well below PASSWORD_ROTATION_DELAY, which
+// also bounds how long every tx of the account stays valid, so the tx expires because of the session
+const SHORT_SESSION_LENGTH = 60n;
+
+describe('PasswordAccount session keys', () => {
+  let aztecNode: AztecNode;
+  let wallet: TestWallet;
+  let passwordAccountContract: PasswordAccountContract;
+  let accountAddress: AztecAddress;
+  let secret: Fr;
+  let salt: Fr;
+  let sponsoredPaymentMethod: SponsoredFeePaymentMethod;
+  let token: TokenContract;
+  let scopes: SessionScope[];
+
+  beforeAll(async () => {
+    console.log(`Connecting to Aztec node at ${NODE_URL}`);
+    aztecNode = createAztecNodeClient(NODE_URL);
+    await waitForNode(aztecNode);
+
+    wallet = await TestWallet.create(aztecNode, { dataDirectory: 'pxe-test-data' });
+    sponsoredPaymentMethod = await setupSponsoredFPC(wallet);
+
+    passwordAccountContract = new PasswordAccountContract(PASSWORD);
+    ({ address: accountAddress, secret, salt } = await deployPasswordAccount(
+      wallet,
+      passwordAccountContract,
+      sponsoredPaymentMethod,
+    ));
+    console.info('PasswordAccount address:', accountAddress.toString());
+
+    token = await TokenContract.deploy(wallet, accountAddress, 'SessionToken', 'SST', 18)
+      .send({ from: accountAddress, fee: { paymentMethod: sponsoredPaymentMethod } })
+      .deployed();
+
+    // The fee payment call is part of the app payload too, so the session has to be allowed to make it
+    const mintCall = await token.methods.mint_to_public(accountAddress, 1n).getFunctionCall();
+    scopes = [
+      { target: token.address, selector: mintCall.selector },
+      {
+        target: await sponsoredPaymentMethod.getFeePayer(),
+        selector: await FunctionSelector.fromSignature('sponsor_unconditionally()'),
+      },
+    ];
+  }, TEST_TIMEOUT);
+
+  async function getLatestTimestamp() {
+    return (await aztecNode.getBlockHeader())!.globalVariables.timestamp;
+  }
+
+  async function createSessionKey(expiresAt?: bigint) {
+    return passwordAccountContract.createSessionKey(accountAddress, await wallet.getChainInfo(), {
+      scopes,
+      expiresAt: expiresAt ?? (await getLatestTimestamp()) + SESSION_LENGTH,
+    });
+  }
+
+  // A wallet that holds the account with only a session key, like a game client would
+  async function getSessionToken(sessionKey: SessionKey, name: string) {
+    const sessionWallet = await TestWallet.create(aztecNode, { dataDirectory: `pxe-test-data/${name}` });
+    await sessionWallet.createAccount({
+      secret,
+      contract: new SessionAccountContract(await computePasswordPublicKey(PASSWORD), sessionKey),
+      salt,
+    });
+    const paymentMethod = await setupSponsoredFPC(sessionWallet);
+    await sessionWallet.registerContract((await aztecNode.getContract(token.address))!, TokenContract.artifact);
+    return { sessionWallet, sessionToken: await TokenContract.at(token.address, sessionWallet), paymentMethod };
+  }
+
+  test('sends an in-scope call signed by a session key', async () => {
+    const { sessionToken, paymentMethod } = await getSessionToken(await createSessionKey(), 'session');
+
+    const receipt = await sessionToken.methods
+      .mint_to_public(accountAddress, 100n)
+      .send({ from: accountAddress, fee: { paymentMethod } })
+      .wait();
+    expect(receipt.status).toBe('success');
+
+    const balance = await token.methods.balance_of_public(accountAddress).simulate({ from: accountAddress });
+    expect(balance).toBe(100n);
+  }, TEST_TIMEOUT);
+
+  test('rejects an out-of-scope call before proving', async () => {
+    const { sessionToken, paymentMethod } = await getSessionToken(await createSessionKey(), 'session-out-of-scope');
+
+    await expect(
+      sessionToken.methods
+        .transfer_in_public(accountAddress, token.address, 1n, 0)
+        .send({ from: accountAddress, fee: { paymentMethod } })
+        .wait(),
+    ).rejects.toThrow(SessionScopeError);
+  }, TEST_TIMEOUT);
+
+  test('rejects a session past its expiry', async () => {
+    const expiredSessionKey = await createSessionKey(await getLatestTimestamp());
+    const { sessionToken, paymentMethod } = await getSessionToken(expiredSessionKey, 'session-expired');
+
+    await expect(
+      sessionToken.methods
+        .mint_to_public(accountAddress, 1n)
+        .send({ from: accountAddress, fee: { paymentMethod } })
+        .wait(),
+    ).rejects.toThrow('Session expired');
+  }, TEST_TIMEOUT);
+
+  test('rejects a tx proven against a block from before the session expired', async () => {
+    const expiresAt = (await getLatestTimestamp()) + SHORT_SESSION_LENGTH;
+    const { sessionWallet, sessionToken, paymentMethod } = await getSessionToken(
+      await createSessionKey(expiresAt),
+      'session-old-anchor',
+    );
+
+    // Proven while the session is valid, so its anchor block passes the expiry check...
+    const provenTx = await proveInteraction(sessionWallet, sessionToken.methods.mint_to_public(accountAddress, 1n), {
+      from: accountAddress,
+      fee: { paymentMethod },
+    });
+    // The session, not the rotation delay or the tx lifetime, sets how long the tx can be included
+    expect(provenTx.data.includeByTimestamp).toBe(expiresAt - 1n);
+
+    // ...and held back until the session has expired. The local network only mines blocks when it has txs.
+    await retryUntil(
+      async () => {
+        if ((await getLatestTimestamp()) >= expiresAt) {
+          return true;
+        }
+        await token.methods
+          .balance_of_public(accountAddress)
+          .send({ from: accountAddress, fee: { paymentMethod: sponsoredPaymentMethod } })
+          .wait();
+        return false;
+      },
+      'session to expire',
+      Number(SHORT_SESSION_LENGTH) * 5,
+      5,
+    );
+
+    await expect(provenTx.send().wait()).rejects.toThrow('Invalid expiration timestamp');
+  }, TEST_TIMEOUT);
+
+  test('rejects a session granted with the wrong password', async () => {
+    const forgedSessionKey = await SessionKey.create(
+      new PasswordAuthWitnessProvider(WRONG_PASSWORD),
+      accountAddress,
+      await wallet.getChainInfo(),
+      { scopes, expiresAt: (await getLatestTimestamp()) + SESSION_LENGTH },
+    );
+    const { sessionToken, paymentMethod } = await getSessionToken(forgedSessionKey, 'session-forged');
+
+    await expect(
+      sessionToken.methods
+        .mint_to_public(accountAddress, 1n)
+        .send({ from: accountAddress, fee: { paymentMethod } })
+        .wait(),
+    ).rejects.toThrow('Session not authorized by account');
+  }, TEST_TIMEOUT);
+
+  test('session keys cannot create authwits', async () => {
+    const { sessionWallet } = await getSessionToken(await createSessionKey(), 'session-authwit');
+
+    await expect(
+      sessionWallet.createAuthWit(accountAddress, { consumer: token.address, innerHash: Fr.random() }),
+    ).rejects.toThrow('Session keys cannot authorize authwits');
+  }, TEST_TIMEOUT);
+});
@@ -0,0 +1,112 @@
+import type { AccountContract } from '@aztec/aztec.js/account';
+import type { AztecAddress } from '@aztec/aztec.js/addresses';
+import { Contract } from '@aztec/aztec.js/contracts';
+import { L1FeeJuicePortalManager, type L2AmountClaim } from '@aztec/aztec.js/ethereum';
+import { type FeePaymentMethod, SponsoredFeePaymentMethod } from '@aztec/aztec.js/fee';
+import { Fr } from '@aztec/aztec.js/fields';
+import type { AztecNode } from '@aztec/aztec.js/node';
+import { SPONSORED_FPC_SALT } from '@aztec/constants';
+import { createExtendedL1Client } from '@aztec/ethereum';
+import { EthCheatCodes } from '@aztec/ethereum/test';
+import { createLogger } from '@aztec/foundation/log';
+import { retryUntil } from '@aztec/foundation/retry';
+import { DateProvider } from '@aztec/foundation/timer';
+import { FeeJuiceContract } from '@aztec/noir-contracts.js/FeeJuice';
+import { SponsoredFPCContractArtifact } from '@aztec/noir-contracts.js/SponsoredFPC';
+import { ProtocolContractAddress } from '@aztec/protocol-contracts';
+import { getContractInstanceFromInstantiationParams } from '@aztec/stdlib/contract';
+import type { TestWallet } from '@aztec/test-wallet/server';
+import { deployPasswordAccount as deployPasswordAccountWithFee } from '../ts/password-account-deployment';
+
+export const NODE_URL = 'http://localhost:8080';
+export const L1_RPC_URL = 'http://localhost:8545';
+
+/** What `verify_private_authwit` returns for an authorized message, `IS_VALID_SELECTOR` in aztec-nr. */
+export const IS_VALID_SELECTOR = 0x47dacd73n;
+
+/** Error of `AccountActions.entrypoint` in account-lib when the payload signature doesn't verify. */
+export const INVALID_ENTRYPOINT_SIGNATURE = 'Payload not authorized by account';
+
+// Mnemonic of the prefunded L1 accounts of the local network
+const L1_MNEMONIC = 'test test test test test test test test test test test junk';
+
+/** Registers the local network's sponsored FPC in the wallet and returns a payment method that uses it. */
+export async function setupSponsoredFPC(wallet: TestWallet) {
+  const sponsoredFPC = await getContractInstanceFromInstantiationParams(SponsoredFPCContractArtifact, {
+    salt: new Fr(SPONSORED_FPC_SALT),
+  });
+  await wallet.registerContract(sponsoredFPC, SponsoredFPCContractArtifact);
+  return new SponsoredFeePaymentMethod(sponsoredFPC.address);
+}
+
+/**
+ * Deploys a PasswordAccount (or MultiFactorAccount) through its own entrypoint with a fee paid by `paymentMethod`, and
+ * registers it in the wallet.
+ */
+export async function deployPasswordAccount(
+  wallet: TestWallet,
+  accountContract: AccountContract,
+  paymentMethod: FeePaymentMethod,
+) {
+  const secret = Fr.random();
+  const salt = Fr.random();
+  const { accountManager, address } = await deployPasswordAccountWithFee(wallet, accountContract, {
+    secret,
+    salt,
+    fee: { mode: 'external', paymentMethod },
+  });
+  const account = await Contract.at(address, await accountContract.getContractArtifact(), wallet);
+
+  return { address, account, accountManager, secret, salt };
+}
+
+/** Mints FeeJuice on L1 and bridges it to `recipient` on L2. The returned claim is consumable once the message is ready. */
+export async function bridgeFeeJuice(node: AztecNode, recipient: AztecAddress, amount: bigint): Promise<L2AmountClaim> {
+  const l1Client = createExtendedL1Client([L1_RPC_URL], L1_MNEMONIC);
+  const portal = await L1FeeJuicePortalManager.new(node, l1Client, createLogger('account-contract:fee-juice'));
+  return portal.bridgeTokensPublic(recipient, amount, true);
+}
+
+/**
+ * Waits until the L1 to L2 message of a bridge claim can be consumed. The local network only mines blocks when it
+ * has txs, so `advanceBlock` is called to push the message into an L2 block.
+ */
+export async function waitForFeeJuiceClaim(
+  node: AztecNode,
+  claim: L2AmountClaim,
+  advanceBlock: () => Promise<unknown>,
+) {
+  const messageHash = Fr.fromHexString(claim.messageHash);
+  await retryUntil(
+    async () => {
+      const messageBlock = await node.getL1ToL2MessageBlock(messageHash);
+      if (messageBlock !== undefined && messageBlock <= (await node.getBlockNumber())) {
+        return true;
+      }
+      await advanceBlock();
+      return false;
+    },
+    'fee juice claim',
+    120,
+    1,
+  );
+}
+
+/**
+ * Moves the local network's clock `seconds` past the latest L2 block, to get past delays such as
+ * PASSWORD_ROTATION_DELAY without waiting for them. L2 block timestamps follow L1 time, so L1 is warped, then
+ * `advanceBlock` mines an L2 block at the new time.
+ */
+export async function warpL2Time(node: AztecNode, seconds: number | bigint, advanceBlock: () => Promise<unknown>) {
+  const ethCheatCodes = new EthCheatCodes([L1_RPC_URL], new DateProvider());
+  const latestHeader = await node.getBlockHeader();
+  const target = latestHeader!.globalVariables.timestamp + BigInt(seconds);
+  const l1Timestamp = BigInt(await ethCheatCodes.timestamp());
+  await ethCheatCodes.warp(target > l1Timestamp ? target : l1Timestamp + 1n, { resetBlockInterval: true });
+  await advanceBlock();
+}
+
+/** Returns the FeeJuice protocol contract, to claim bridged FeeJuice or read balances. */
+export function getFeeJuiceContract(wallet: TestWallet) {
+  return FeeJuiceContract.at(ProtocolContractAddress.FeeJuice, wallet);
+}
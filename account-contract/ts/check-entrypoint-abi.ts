@@ -0,0 +1,16 @@
+import { MultiFactorAccountContractArtifact } from './multi-factor-account-contract-artifact';
+import { PasswordAccountContractArtifact } from './password-account-contract-artifact';
+import { SESSION_ENTRYPOINT_FUNCTION_NAME, getAccountEntrypointAbi } from './password-account-entrypoint-abi';
+
+// Fails the build if a compiled `entrypoint` no longer matches the arguments the TS encoder passes.
+try {
+  for (const artifact of [PasswordAccountContractArtifact, MultiFactorAccountContractArtifact]) {
+    const abi = getAccountEntrypointAbi(artifact);
+    console.log(`${artifact.name} entrypoint ABI OK (${abi.parameters.map(p => p.name).join(', ')})`);
+  }
+  const sessionAbi = getAccountEntrypointAbi(PasswordAccountContractArtifact, SESSION_ENTRYPOINT_FUNCTION_NAME);
+  console.log(`PasswordAccount session_entrypoint ABI OK (${sessionAbi.parameters.map(p => p.name).join(', ')})`);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
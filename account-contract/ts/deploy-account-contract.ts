@@ -1,16 +1,196 @@
-import { AztecAddress } from '@aztec/aztec.js/addresses';
 import { Fr } from '@aztec/aztec.js/fields';
 import { SponsoredFeePaymentMethod } from '@aztec/aztec.js/fee';
-import { Contract, DeployMethod, type DeployOptions } from '@aztec/aztec.js/contracts';
-import { createAztecNodeClient } from '@aztec/aztec.js/node';
-import { deriveKeys } from '@aztec/aztec.js/keys';
+import { createAztecNodeClient, waitForNode } from '@aztec/aztec.js/node';
 import { getContractInstanceFromInstantiationParams } from '@aztec/stdlib/contract';
 import { SponsoredFPCContractArtifact } from '@aztec/noir-contracts.js/SponsoredFPC';
 import { SPONSORED_FPC_SALT } from '@aztec/constants';
 import { PasswordAccountContract } from './password-account-entrypoint';
+import {
+  type PasswordAccountDeploymentFee,
+  computePasswordAccountAddress,
+  getPasswordAccountDeployMethod,
+} from './password-account-deployment';
 import { TestWallet } from '@aztec/test-wallet/server';
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { createInterface } from 'node:readline/promises';
+import { Writable } from 'node:stream';
+import { parseArgs } from 'node:util';
 
-async function getSponsoredPFCContract() {
+const USAGE = `Usage: npx tsx ts/deploy-account-contract.ts <command> [options]
+
+Commands:
+  deploy            Deploy a PasswordAccount and register it in the wallet
+  compute-address   Print the address the account would be deployed at, without touching the network
+  simulate          Simulate the deployment and print the estimated gas
+  register          Register an already deployed PasswordAccount in the wallet
+
+Options:
+  --node-url <url>         Aztec node to connect to (default: $AZTEC_NODE_URL or http://localhost:8080)
+  --password-env <name>    Read the password from this environment variable (default: PASSWORD_ACCOUNT_PASSWORD)
+  --password-file <path>   Read the password from the first line of a file
+  --password-prompt        Prompt for the password on the terminal
+  --secret-key <field>     Secret key of the account (default: random, printed in the output)
+  --salt <field>           Deployment salt (default: random, printed in the output)
+  --fee <method>           How the deployment pays its fee (default: sponsored):
+                             sponsored             the local network's sponsored FPC pays
+                             fee-juice             the account pays with FeeJuice already claimed to its address
+                             fee-juice-with-claim  the account claims bridged FeeJuice and pays with it
+  --claim <path>           JSON file with the bridge claim for fee-juice-with-claim:
+                           { "claimAmount": ..., "claimSecret": ..., "messageLeafIndex": ... }
+  --data-dir <path>        Directory the wallet's PXE stores its data in (default: in memory)
+  --json                   Print the result as JSON
+  -h, --help               Show this message
+`;
+
+const COMMANDS = ['deploy', 'compute-address', 'simulate', 'register'] as const;
+type Command = (typeof COMMANDS)[number];
+
+const FEE_METHODS = ['sponsored', 'fee-juice', 'fee-juice-with-claim'] as const;
+type FeeMethod = (typeof FEE_METHODS)[number];
+
+interface CliOptions {
+  nodeUrl: string;
+  password: Fr;
+  secretKey: Fr;
+  salt: Fr;
+  fee: FeeMethod;
+  claimFile?: string;
+  dataDir?: string;
+  json: boolean;
+}
+
+class CliError extends Error {}
+
+/** Logs progress to stderr, so `--json` output on stdout stays machine readable. */
+function log(message: string) {
+  console.error(message);
+}
+
+function parseField(name: string, value: string): Fr {
+  try {
+    return new Fr(BigInt(value));
+  } catch {
+    throw new CliError(`--${name} must be a field element in decimal or 0x-prefixed hex, got "${value}"`);
+  }
+}
+
+/**
+ * Turns the password text into the field the account is keyed on. Numeric passwords are used as is, which keeps
+ * accounts created with `new PasswordAccountContract(new Fr(...))` reachable, anything else is hashed.
+ */
+function passwordToField(password: string): Fr {
+  if (/^(0x[0-9a-fA-F]+|\d+)$/.test(password)) {
+    return parseField('password', password);
+  }
+  return Fr.fromBufferReduce(createHash('sha256').update(password, 'utf8').digest());
+}
+
+async function promptPassword(): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new CliError('--password-prompt needs an interactive terminal');
+  }
+  // readline echoes what is typed to its output, so it gets one that drops everything and the prompt goes to stderr
+  const mutedOutput = new Writable({
+    write(_chunk, _encoding, callback) {
+      callback();
+    },
+  });
+  const rl = createInterface({ input: process.stdin, output: mutedOutput, terminal: true });
+  process.stderr.write('Password: ');
+  try {
+    return await rl.question('');
+  } finally {
+    rl.close();
+    process.stderr.write('\n');
+  }
+}
+
+interface PasswordSourceFlags {
+  'password-env'?: string;
+  'password-file'?: string;
+  'password-prompt'?: boolean;
+}
+
+async function readPassword(values: PasswordSourceFlags) {
+  const sources = [values['password-env'], values['password-file'], values['password-prompt']].filter(Boolean).length;
+  if (sources > 1) {
+    throw new CliError('Pass only one of --password-env, --password-file and --password-prompt');
+  }
+
+  let password: string | undefined;
+  if (values['password-file']) {
+    password = (await readFile(values['password-file'], 'utf8')).split(/\r?\n/)[0];
+  } else if (values['password-prompt']) {
+    password = await promptPassword();
+  } else {
+    const envVar = values['password-env'] ?? 'PASSWORD_ACCOUNT_PASSWORD';
+    password = process.env[envVar];
+    if (password === undefined) {
+      throw new CliError(`No password given: set ${envVar}, or pass --password-file or --password-prompt`);
+    }
+  }
+
+  if (!password) {
+    throw new CliError('Password must not be empty');
+  }
+  return passwordToField(password);
+}
+
+async function parseCli(argv: string[]): Promise<{ command: Command; options: CliOptions } | undefined> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'node-url': { type: 'string' },
+      'password-env': { type: 'string' },
+      'password-file': { type: 'string' },
+      'password-prompt': { type: 'boolean' },
+      'secret-key': { type: 'string' },
+      salt: { type: 'string' },
+      fee: { type: 'string', default: 'sponsored' },
+      claim: { type: 'string' },
+      'data-dir': { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return undefined;
+  }
+
+  const [command, ...extra] = positionals;
+  if (!COMMANDS.includes(command as Command)) {
+    throw new CliError(command ? `Unknown command "${command}"` : 'Missing command');
+  }
+  if (extra.length > 0) {
+    throw new CliError(`Unexpected arguments: ${extra.join(' ')}`);
+  }
+  if (!FEE_METHODS.includes(values.fee as FeeMethod)) {
+    throw new CliError(`--fee must be one of ${FEE_METHODS.join(', ')}, got "${values.fee}"`);
+  }
+  if ((values.fee === 'fee-juice-with-claim') !== (values.claim !== undefined)) {
+    throw new CliError('--claim is required with, and only allowed with, --fee fee-juice-with-claim');
+  }
+
+  return {
+    command: command as Command,
+    options: {
+      nodeUrl: values['node-url'] ?? process.env.AZTEC_NODE_URL ?? 'http://localhost:8080',
+      password: await readPassword(values),
+      secretKey: values['secret-key'] ? parseField('secret-key', values['secret-key']) : Fr.random(),
+      salt: values.salt ? parseField('salt', values.salt) : Fr.random(),
+      fee: values.fee as FeeMethod,
+      claimFile: values.claim,
+      dataDir: values['data-dir'],
+      json: values.json,
+    },
+  };
+}
+
+async function getSponsoredFPCContract() {
   const instance = await getContractInstanceFromInstantiationParams(
     SponsoredFPCContractArtifact,
     {
@@ -21,63 +201,123 @@ async function getSponsoredPFCContract() {
   return instance;
 }
 
-const deployAccountOpts: DeployOptions = {
-  skipClassPublication: false,
-  skipInstancePublication: false,
-  skipInitialization: false,
-  from: AztecAddress.ZERO,
-  fee: {
-    paymentMethod: new SponsoredFeePaymentMethod(
-      (await getSponsoredPFCContract()).address
-    ),
-  },
-  contractAddressSalt: Fr.ONE,
-  universalDeploy: true,
-};
-
-const passwordAccountContract = new PasswordAccountContract(new Fr(123123123123));
-const artifact = await passwordAccountContract.getContractArtifact();
-
-const { constructorName, constructorArgs } = await passwordAccountContract.getInitializationFunctionAndArgs();
-
-console.log(constructorName, constructorArgs);
-
-const secretKey = Fr.random();
-// const salt = Fr.random();
-const { publicKeys } = await deriveKeys(secretKey);
-const wallet = await TestWallet.create(createAztecNodeClient('http://localhost:8080'));
-
-// This doesn't work due to a strange bug in fee payment
-// const deployPasswordAccountMethod = new DeployAccountMethod(
-//   publicKeys,
-//   wallet,
-//   artifact,
-//   address => Contract.at(address, artifact, wallet),
-//   salt,
-//   constructorArgs,
-//   constructorName,
-// );
-
-await wallet.registerContract(await getSponsoredPFCContract(), SponsoredFPCContractArtifact);
-
-const accountContractDeployMethod = new DeployMethod(
-    publicKeys,
-    wallet,
-    artifact,
-    (instance, wallet) => Contract.at(instance.address, artifact, wallet),
-    constructorArgs,
-    constructorName,
-)
-
-const { estimatedGas, stats } = await accountContractDeployMethod.simulate(deployAccountOpts);
-
-console.log(estimatedGas);
-console.log(stats);
-
-const deployedAccountContract = await accountContractDeployMethod.send(deployAccountOpts).wait();
-
-console.log('PasswordAccount contract deployed at:', deployedAccountContract.contract.address);
-
-// Create and register an account using the deployed contract
-const account = await wallet.createAccount({ secret: Fr.random(), contract: passwordAccountContract, salt: Fr.random() });
-console.log('Account registered at:', account.address.toString());
+async function readClaim(path: string) {
+  const claim = JSON.parse(await readFile(path, 'utf8'));
+  for (const key of ['claimAmount', 'claimSecret', 'messageLeafIndex']) {
+    if (claim[key] === undefined) {
+      throw new CliError(`Claim file ${path} is missing "${key}"`);
+    }
+  }
+  return {
+    claimAmount: BigInt(claim.claimAmount),
+    claimSecret: parseField('claim', String(claim.claimSecret)),
+    messageLeafIndex: BigInt(claim.messageLeafIndex),
+  };
+}
+
+async function getDeploymentFee(wallet: TestWallet, options: CliOptions): Promise<PasswordAccountDeploymentFee> {
+  switch (options.fee) {
+    case 'sponsored': {
+      const sponsoredFPC = await getSponsoredFPCContract();
+      await wallet.registerContract(sponsoredFPC, SponsoredFPCContractArtifact);
+      return { mode: 'external', paymentMethod: new SponsoredFeePaymentMethod(sponsoredFPC.address) };
+    }
+    case 'fee-juice':
+      return { mode: 'preexisting-fee-juice' };
+    case 'fee-juice-with-claim':
+      return { mode: 'fee-juice-with-claim', claim: await readClaim(options.claimFile!) };
+  }
+}
+
+async function createWallet({ nodeUrl, dataDir }: CliOptions) {
+  log(`Connecting to Aztec node at ${nodeUrl}`);
+  const node = createAztecNodeClient(nodeUrl);
+  await waitForNode(node);
+  return TestWallet.create(node, dataDir ? { dataDirectory: dataDir } : undefined);
+}
+
+async function getAccountDeployment(options: CliOptions, wallet: TestWallet) {
+  return getPasswordAccountDeployMethod(wallet, new PasswordAccountContract(options.password), {
+    secret: options.secretKey,
+    salt: options.salt,
+    fee: await getDeploymentFee(wallet, options),
+  });
+}
+
+function computeAddress(options: CliOptions) {
+  return computePasswordAccountAddress(new PasswordAccountContract(options.password), {
+    secret: options.secretKey,
+    salt: options.salt,
+  });
+}
+
+async function run(command: Command, options: CliOptions): Promise<Record<string, unknown>> {
+  const initialPasswordPublicKey = await new PasswordAccountContract(options.password).getInitialPasswordPublicKey();
+  const account = {
+    secretKey: options.secretKey.toString(),
+    salt: options.salt.toString(),
+    initialPasswordPublicKey: { x: initialPasswordPublicKey.x.toString(), y: initialPasswordPublicKey.y.toString() },
+  };
+
+  if (command === 'compute-address') {
+    return { address: (await computeAddress(options)).toString(), ...account };
+  }
+
+  const wallet = await createWallet(options);
+  try {
+    switch (command) {
+      case 'simulate': {
+        const { accountManager, deployMethod, deployOptions } = await getAccountDeployment(options, wallet);
+        const { estimatedGas, stats } = await deployMethod.simulate(deployOptions);
+        return { address: accountManager.address.toString(), ...account, estimatedGas, stats };
+      }
+      case 'deploy': {
+        const { accountManager, deployMethod, deployOptions } = await getAccountDeployment(options, wallet);
+        log(`Deploying PasswordAccount, paying with ${options.fee}...`);
+        const receipt = await deployMethod.send(deployOptions).wait();
+        return { address: accountManager.address.toString(), ...account, txHash: receipt.txHash.toString() };
+      }
+      case 'register': {
+        const accountManager = await wallet.createAccount({
+          secret: options.secretKey,
+          contract: new PasswordAccountContract(options.password),
+          salt: options.salt,
+        });
+        return { address: accountManager.address.toString(), ...account };
+      }
+    }
+  } finally {
+    await wallet.stop();
+  }
+}
+
+// Gas estimates and stats contain bigints, which JSON.stringify can't serialize on its own
+const bigintReplacer = (_key: string, value: unknown) => (typeof value === 'bigint' ? value.toString() : value);
+
+function printResult(result: Record<string, unknown>, json: boolean) {
+  if (json) {
+    console.log(JSON.stringify(result, bigintReplacer, 2));
+    return;
+  }
+  for (const [key, value] of Object.entries(result)) {
+    console.log(`${key}: ${typeof value === 'object' ? JSON.stringify(value, bigintReplacer) : value}`);
+  }
+}
+
+async function main() {
+  const cli = await parseCli(process.argv.slice(2));
+  if (!cli) {
+    return;
+  }
+  const result = await run(cli.command, cli.options);
+  printResult(result, cli.options.json);
+}
+
+main().catch(error => {
+  if (error instanceof CliError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+    console.error(`${error.message}\n\n${USAGE}`);
+  } else {
+    console.error(error);
+  }
+  process.exit(1);
+});
@@ -0,0 +1,7 @@
+import { ContractArtifact, loadContractArtifact } from '@aztec/stdlib/abi';
+import MultiFactorAccountContractJson from '../multi-factor-account/target/multi_factor_account-MultiFactorAccount.json' with { type: 'json' };
+import { NoirCompiledContract } from '@aztec/stdlib/noir';
+
+export const MultiFactorAccountContractArtifact: ContractArtifact = loadContractArtifact(
+  MultiFactorAccountContractJson as NoirCompiledContract,
+);
@@ -0,0 +1,78 @@
+import type { Fr, GrumpkinScalar } from '@aztec/aztec.js/fields';
+import type { AccountContract } from '@aztec/aztec.js/account';
+import type { ContractArtifact } from '@aztec/stdlib/abi';
+import { AuthWitness } from '@aztec/stdlib/auth-witness';
+import type { CompleteAddress } from '@aztec/stdlib/contract';
+import type { AuthWitnessProvider, ChainInfo } from '@aztec/entrypoints/interfaces';
+import { Schnorr } from '@aztec/foundation/crypto/schnorr';
+
+import { MultiFactorAccountContractArtifact } from './multi-factor-account-contract-artifact';
+import {
+  PasswordAccountInterface,
+  PasswordAuthWitnessProvider,
+  computePasswordPublicKey,
+} from './password-account-entrypoint';
+
+export { MultiFactorAccountContractArtifact };
+
+/**
+ * Authorizes messages with both factors: a Schnorr signature made with the device signing key, followed by one made
+ * with the key derived from the password. The contract rejects the witness unless both signatures are valid.
+ */
+export class MultiFactorAuthWitnessProvider implements AuthWitnessProvider {
+  private passwordAuthWitnessProvider: PasswordAuthWitnessProvider;
+
+  constructor(
+    private signingPrivateKey: GrumpkinScalar,
+    password: Fr,
+  ) {
+    this.passwordAuthWitnessProvider = new PasswordAuthWitnessProvider(password);
+  }
+
+  async createAuthWit(messageHash: Fr): Promise<AuthWitness> {
+    const deviceSignature = await new Schnorr().constructSignature(messageHash.toBuffer(), this.signingPrivateKey);
+    const passwordWitness = await this.passwordAuthWitnessProvider.createAuthWit(messageHash);
+    return new AuthWitness(messageHash, [...deviceSignature.toBuffer(), ...passwordWitness.witness]);
+  }
+}
+
+/**
+ * Account contract that needs both a device signing key and the password to authorize anything, so losing either one
+ * alone does not compromise the account. Txs are encoded by the same entrypoint as the PasswordAccount.
+ */
+export class MultiFactorAccountContract implements AccountContract {
+  private authWitnessProvider: MultiFactorAuthWitnessProvider;
+
+  constructor(
+    private signingPrivateKey: GrumpkinScalar,
+    private password: Fr,
+  ) {
+    this.authWitnessProvider = new MultiFactorAuthWitnessProvider(signingPrivateKey, password);
+  }
+
+  getAuthWitnessProvider(_address: CompleteAddress): AuthWitnessProvider {
+    return this.authWitnessProvider;
+  }
+
+  async getInitializationFunctionAndArgs() {
+    const signingPublicKey = await new Schnorr().computePublicKey(this.signingPrivateKey);
+    const passwordPublicKey = await computePasswordPublicKey(this.password);
+    return {
+      constructorName: 'constructor',
+      constructorArgs: [signingPublicKey.x, signingPublicKey.y, passwordPublicKey.x, passwordPublicKey.y],
+    };
+  }
+
+  getContractArtifact(): Promise<ContractArtifact> {
+    return Promise.resolve(MultiFactorAccountContractArtifact);
+  }
+
+  getInterface(address: CompleteAddress, chainInfo: ChainInfo): PasswordAccountInterface {
+    return new PasswordAccountInterface(
+      this.getAuthWitnessProvider(address),
+      address,
+      chainInfo,
+      MultiFactorAccountContractArtifact,
+    );
+  }
+}
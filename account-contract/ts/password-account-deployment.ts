@@ -0,0 +1,100 @@
+import type { AccountContract } from '@aztec/aztec.js/account';
+import { AztecAddress } from '@aztec/aztec.js/addresses';
+import type { L2AmountClaim } from '@aztec/aztec.js/ethereum';
+import { type FeePaymentMethod, FeeJuicePaymentMethodWithClaim } from '@aztec/aztec.js/fee';
+import type { Fr } from '@aztec/aztec.js/fields';
+import { deriveKeys } from '@aztec/aztec.js/keys';
+import { getContractInstanceFromInstantiationParams } from '@aztec/stdlib/contract';
+import type { TestWallet } from '@aztec/test-wallet/server';
+
+/**
+ * How the account pays for its own deployment:
+ *   - external: someone else pays, e.g. the sponsored FPC, and the account entrypoint runs with EXTERNAL.
+ *   - preexisting-fee-juice: the account pays with FeeJuice already bridged and claimed to its address
+ *                            (PREEXISTING_FEE_JUICE).
+ *   - fee-juice-with-claim: the account claims bridged FeeJuice in the deployment tx and pays with it
+ *                           (FEE_JUICE_WITH_CLAIM).
+ */
+export type PasswordAccountDeploymentFee =
+  | { mode: 'external'; paymentMethod: FeePaymentMethod }
+  | { mode: 'preexisting-fee-juice' }
+  | { mode: 'fee-juice-with-claim'; claim: Pick<L2AmountClaim, 'claimAmount' | 'claimSecret' | 'messageLeafIndex'> };
+
+export interface DeployPasswordAccountOptions {
+  /** Secret key of the account, its encryption keys are derived from it. */
+  secret: Fr;
+  /** Deployment salt. */
+  salt: Fr;
+  fee: PasswordAccountDeploymentFee;
+}
+
+/**
+ * Computes the address a PasswordAccount (or MultiFactorAccount) will be deployed at, e.g. to bridge FeeJuice to it before deploying.
+ * Account deployments are universal, so the address does not depend on who sends the deployment.
+ */
+export async function computePasswordAccountAddress(
+  accountContract: AccountContract,
+  { secret, salt }: Pick<DeployPasswordAccountOptions, 'secret' | 'salt'>,
+): Promise<AztecAddress> {
+  const { constructorName, constructorArgs } = await accountContract.getInitializationFunctionAndArgs();
+  const { publicKeys } = await deriveKeys(secret);
+  const instance = await getContractInstanceFromInstantiationParams(
+    await accountContract.getContractArtifact(),
+    {
+      constructorArtifact: constructorName,
+      constructorArgs,
+      salt,
+      publicKeys,
+      deployer: AztecAddress.ZERO,
+    },
+  );
+  return instance.address;
+}
+
+function getPaymentMethod(address: AztecAddress, fee: PasswordAccountDeploymentFee): FeePaymentMethod | undefined {
+  switch (fee.mode) {
+    case 'external':
+      return fee.paymentMethod;
+    case 'preexisting-fee-juice':
+      // Without a payment method the account entrypoint pays with its own balance
+      return undefined;
+    case 'fee-juice-with-claim':
+      return new FeeJuicePaymentMethodWithClaim(address, fee.claim);
+  }
+}
+
+/**
+ * Registers a PasswordAccount in the wallet and returns the `DeployAccountMethod` that deploys and initializes it,
+ * together with options that send the deployment through the account's own entrypoint.
+ */
+export async function getPasswordAccountDeployMethod(
+  wallet: TestWallet,
+  accountContract: AccountContract,
+  { secret, salt, fee }: DeployPasswordAccountOptions,
+) {
+  const accountManager = await wallet.createAccount({ secret, contract: accountContract, salt });
+  const deployMethod = await accountManager.getDeployMethod();
+  // Sending from the zero address makes the account its own fee payer, through its entrypoint
+  const deployOptions = {
+    from: AztecAddress.ZERO,
+    fee: { paymentMethod: getPaymentMethod(accountManager.address, fee) },
+  };
+
+  return { accountManager, deployMethod, deployOptions };
+}
+
+/** Registers a PasswordAccount in the wallet, then deploys and initializes it in a single tx. */
+export async function deployPasswordAccount(
+  wallet: TestWallet,
+  accountContract: AccountContract,
+  options: DeployPasswordAccountOptions,
+) {
+  const { accountManager, deployMethod, deployOptions } = await getPasswordAccountDeployMethod(
+    wallet,
+    accountContract,
+    options,
+  );
+  const receipt = await deployMethod.send(deployOptions).wait();
+
+  return { accountManager, address: accountManager.address, receipt };
+}
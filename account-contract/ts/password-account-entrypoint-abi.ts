@@ -0,0 +1,179 @@
+import { type AbiType, type ContractArtifact, type FunctionAbi, getFunctionArtifactByName } from '@aztec/stdlib/abi';
+
+import { PasswordAccountContractArtifact } from './password-account-contract-artifact';
+import { MAX_SESSION_SCOPES } from './session-key';
+
+/** Name of the account entrypoint function in the PasswordAccount and MultiFactorAccount contracts. */
+export const ENTRYPOINT_FUNCTION_NAME = 'entrypoint';
+
+/** Describes a struct the way `describeAbiType` does, from its path and its fields' descriptions in order. */
+function describeStruct(path: string, fields: Record<string, string>): string {
+  const body = Object.entries(fields).map(([name, type]) => `${name}: ${type}`);
+  return `struct ${path} { ${body.join(', ')} }`;
+}
+
+const AZTEC_ADDRESS = describeStruct('aztec::protocol_types::address::aztec_address::AztecAddress', {
+  inner: 'field',
+});
+
+const FUNCTION_SELECTOR = describeStruct('aztec::protocol_types::abis::function_selector::FunctionSelector', {
+  inner: 'u32',
+});
+
+/** `AppPayload` as serialized by `EncodedAppEntrypointCalls`, with `MAX_FUNCTION_CALLS` (5) calls. */
+const APP_PAYLOAD = describeStruct('aztec::authwit::entrypoint::app::AppPayload', {
+  function_calls: `[${describeStruct('aztec::authwit::entrypoint::function_call::FunctionCall', {
+    args_hash: 'field',
+    function_selector: FUNCTION_SELECTOR,
+    target_address: AZTEC_ADDRESS,
+    is_public: 'bool',
+    hide_msg_sender: 'bool',
+    is_static: 'bool',
+  })}; 5]`,
+  tx_nonce: 'field',
+});
+
+/** `Session` as serialized by `SessionKey.toNoirStruct`. */
+const SESSION = describeStruct('custom_account::session::Session', {
+  public_key: describeStruct('account_lib::schnorr_public_key::SchnorrPublicKey', { x: 'field', y: 'field' }),
+  scopes: `[${describeStruct('custom_account::session::SessionScope', {
+    target: AZTEC_ADDRESS,
+    selector: FUNCTION_SELECTOR,
+  })}; ${MAX_SESSION_SCOPES}]`,
+  expires_at: 'u64',
+});
+
+/**
+ * Parameters that `PasswordAccountEntrypoint.createTxExecutionRequest` passes to `encodeArguments`, in order.
+ * Struct parameters are compared field by field, since `encodeArguments` lays out the encoder's objects by the
+ * artifact's fields. If you change the Noir `entrypoint` signature or one of its structs, update this list together
+ * with the encoder.
+ */
+export const EXPECTED_ENTRYPOINT_PARAMETERS: { name: string; type: string }[] = [
+  { name: 'app_payload', type: APP_PAYLOAD },
+  { name: 'fee_payment_method', type: 'u8' },
+  { name: 'cancellable', type: 'bool' },
+];
+
+/** Name of the entrypoint the PasswordAccount runs txs signed by a session key through. */
+export const SESSION_ENTRYPOINT_FUNCTION_NAME = 'session_entrypoint';
+
+/** Parameters of `session_entrypoint`: the same as `entrypoint`, followed by the session grant. */
+export const EXPECTED_SESSION_ENTRYPOINT_PARAMETERS: { name: string; type: string }[] = [
+  ...EXPECTED_ENTRYPOINT_PARAMETERS,
+  { name: 'session', type: SESSION },
+];
+
+/** Parameters the encoder passes to each entrypoint function, by function name. */
+const EXPECTED_PARAMETERS_BY_FUNCTION: Record<string, { name: string; type: string }[]> = {
+  [ENTRYPOINT_FUNCTION_NAME]: EXPECTED_ENTRYPOINT_PARAMETERS,
+  [SESSION_ENTRYPOINT_FUNCTION_NAME]: EXPECTED_SESSION_ENTRYPOINT_PARAMETERS,
+};
+
+/** Thrown when the compiled entrypoint no longer matches what the TypeScript encoder sends. */
+export class EntrypointAbiMismatchError extends Error {
+  constructor(
+    public readonly diff: string[],
+    contractName = 'PasswordAccount',
+    functionName = ENTRYPOINT_FUNCTION_NAME,
+  ) {
+    super(
+      `${contractName} \`${functionName}\` ABI has drifted from the TypeScript encoder ` +
+        `(- expected by encoder, + found in artifact):\n${diff.join('\n')}`,
+    );
+    this.name = 'EntrypointAbiMismatchError';
+  }
+}
+
+/**
+ * Human readable description of an ABI type, used to compare and report parameter types. Structs are described with
+ * their fields, so a field that is added, removed, renamed or retyped is reported even if the struct's path is the same.
+ */
+export function describeAbiType(type: AbiType): string {
+  switch (type.kind) {
+    case 'field':
+      return 'field';
+    case 'boolean':
+      return 'bool';
+    case 'integer':
+      return `${type.sign === 'signed' ? 'i' : 'u'}${type.width}`;
+    case 'string':
+      return `str<${type.length}>`;
+    case 'array':
+      return `[${describeAbiType(type.type)}; ${type.length}]`;
+    case 'tuple':
+      return `(${type.fields.map(describeAbiType).join(', ')})`;
+    case 'struct':
+      return describeStruct(
+        type.path,
+        Object.fromEntries(type.fields.map(field => [field.name, describeAbiType(field.type)])),
+      );
+  }
+}
+
+/**
+ * Compares the parameters of a compiled entrypoint against the ones the encoder passes to it, looked up by function
+ * name (`EXPECTED_ENTRYPOINT_PARAMETERS` or `EXPECTED_SESSION_ENTRYPOINT_PARAMETERS`).
+ *
+ * @returns One line per mismatching parameter, empty if the signatures match.
+ */
+export function diffEntrypointAbi(
+  abi: FunctionAbi,
+  expectedParameters = EXPECTED_PARAMETERS_BY_FUNCTION[abi.name] ?? EXPECTED_ENTRYPOINT_PARAMETERS,
+): string[] {
+  const actual = abi.parameters.map(p => ({ name: p.name, type: describeAbiType(p.type) }));
+  const diff: string[] = [];
+
+  for (let i = 0; i < Math.max(actual.length, expectedParameters.length); i++) {
+    const expectedParam = expectedParameters[i];
+    const actualParam = actual[i];
+    if (expectedParam?.name === actualParam?.name && expectedParam?.type === actualParam?.type) {
+      continue;
+    }
+    if (expectedParam) {
+      diff.push(`  - [${i}] ${expectedParam.name}: ${expectedParam.type}`);
+    }
+    if (actualParam) {
+      diff.push(`  + [${i}] ${actualParam.name}: ${actualParam.type}`);
+    }
+  }
+
+  return diff;
+}
+
+/** Throws an `EntrypointAbiMismatchError` if the given entrypoint ABI does not match the encoder. */
+export function assertEntrypointAbiMatches(abi: FunctionAbi, contractName?: string) {
+  const diff = diffEntrypointAbi(abi);
+  if (diff.length > 0) {
+    throw new EntrypointAbiMismatchError(diff, contractName, abi.name);
+  }
+}
+
+const entrypointAbis = new WeakMap<ContractArtifact, Map<string, FunctionAbi>>();
+
+/**
+ * Returns the ABI of an entrypoint read from a compiled account artifact, `entrypoint` by default, checking on first
+ * use that it still matches the arguments the TypeScript encoder passes.
+ */
+export function getAccountEntrypointAbi(
+  artifact: ContractArtifact,
+  functionName: string = ENTRYPOINT_FUNCTION_NAME,
+): FunctionAbi {
+  let abis = entrypointAbis.get(artifact);
+  if (!abis) {
+    abis = new Map();
+    entrypointAbis.set(artifact, abis);
+  }
+  let abi = abis.get(functionName);
+  if (!abi) {
+    abi = getFunctionArtifactByName(artifact, functionName);
+    assertEntrypointAbiMatches(abi, artifact.name);
+    abis.set(functionName, abi);
+  }
+  return abi;
+}
+
+/** Returns the checked `entrypoint` ABI of the compiled PasswordAccount artifact. */
+export function getPasswordAccountEntrypointAbi(): FunctionAbi {
+  return getAccountEntrypointAbi(PasswordAccountContractArtifact);
+}
@@ -1,40 +1,69 @@
-import { Fr } from '@aztec/aztec.js/fields';
+import { Fr, GrumpkinScalar, type Point } from '@aztec/aztec.js/fields';
 import type { AztecAddress } from '@aztec/aztec.js/addresses';
-import { type ContractArtifact, type FunctionAbi, FunctionSelector, encodeArguments, loadContractArtifact } from '@aztec/stdlib/abi';
+import { type ContractArtifact, type FunctionAbi, FunctionSelector, encodeArguments } from '@aztec/stdlib/abi';
 import type { GasSettings } from '@aztec/stdlib/gas';
 import { HashedValues, TxContext, TxExecutionRequest, type ExecutionPayload } from '@aztec/stdlib/tx';
 import { CompleteAddress } from '@aztec/stdlib/contract';
-import { AuthWitness } from '@aztec/stdlib/auth-witness';
-import type { NoirCompiledContract } from '@aztec/stdlib/noir';
+import { AuthWitness, computeAuthWitMessageHash } from '@aztec/stdlib/auth-witness';
 
 import type { AuthWitnessProvider, ChainInfo, EntrypointInterface } from '@aztec/entrypoints/interfaces';
 import { EncodedAppEntrypointCalls } from '@aztec/entrypoints/encoding';
 import type { DefaultAccountEntrypointOptions } from '@aztec/entrypoints/account';
 import type { AccountContract, AccountInterface } from '@aztec/aztec.js/account';
+import type { CallIntent, IntentInnerHash } from '@aztec/aztec.js/authorization';
+import { Contract, type SendInteractionOptions } from '@aztec/aztec.js/contracts';
+import type { Wallet } from '@aztec/aztec.js/wallet';
+import { poseidon2HashWithSeparator } from '@aztec/foundation/crypto/poseidon';
+import { Schnorr } from '@aztec/foundation/crypto/schnorr';
+import { retryUntil } from '@aztec/foundation/retry';
+import { AuthRegistryContract } from '@aztec/noir-contracts.js/AuthRegistry';
+import { ProtocolContractAddress } from '@aztec/protocol-contracts';
 
-import PasswordAccountContractJson from '../target/custom_account-PasswordAccount.json' with { type: 'json' };
-
-export const PasswordAccountContractArtifact: ContractArtifact = loadContractArtifact(
-  PasswordAccountContractJson as NoirCompiledContract,
-);
+import { PasswordAccountContractArtifact } from './password-account-contract-artifact';
+import { SESSION_ENTRYPOINT_FUNCTION_NAME, getAccountEntrypointAbi } from './password-account-entrypoint-abi';
+import { type CreateSessionKeyOptions, SessionKey } from './session-key';
 
+export { PasswordAccountContractArtifact };
 
 /** Default L1 chain ID to use when constructing txs (matches hardhat and anvil's default). */
 export const DEFAULT_CHAIN_ID = 31337;
 /** Default protocol version to use. */
 export const DEFAULT_VERSION = 1;
 
+/** Domain separator used when deriving the account signing key from the password ("pass"). */
+const PASSWORD_SIGNING_KEY_SEPARATOR = 0x70617373;
+
+/**
+ * Derives the Schnorr signing key that stands in for the password on chain. The contract only ever sees the matching
+ * public key and signatures, so neither the entrypoint args nor auth witnesses carry the raw password.
+ */
+export async function derivePasswordSigningKey(password: Fr): Promise<GrumpkinScalar> {
+  const hash = await poseidon2HashWithSeparator([password], PASSWORD_SIGNING_KEY_SEPARATOR);
+  return new GrumpkinScalar(hash.toBigInt());
+}
+
+/** Computes the public key the PasswordAccount contract stores for the given password. */
+export async function computePasswordPublicKey(password: Fr): Promise<Point> {
+  return new Schnorr().computePublicKey(await derivePasswordSigningKey(password));
+}
+
 /**
  * Implementation for an entrypoint interface that follows the default entrypoint signature
  * for an account, which accepts an AppPayload and a FeePayload as defined in noir-libs/aztec-noir/src/entrypoint module
  */
 export class PasswordAccountEntrypoint implements EntrypointInterface {
+  /**
+   * @param auth - Signs the payload. Either the password's auth witness provider, or a `SessionKey`, in which case txs
+   * go through `session_entrypoint` and calls outside the session's scopes are rejected before anything is proven.
+   * @param artifact - Account contract whose `entrypoint` is called. Any contract with the same entrypoint signature
+   * works, e.g. the MultiFactorAccount, since authorization is left to the auth witness provider.
+   */
   constructor(
     private address: AztecAddress,
     private auth: AuthWitnessProvider,
-    private password: Fr,
     private chainId: number = DEFAULT_CHAIN_ID,
     private version: number = DEFAULT_VERSION,
+    private artifact: ContractArtifact = PasswordAccountContractArtifact,
   ) {}
 
   async createTxExecutionRequest(
@@ -46,17 +75,28 @@ export class PasswordAccountEntrypoint implements EntrypointInterface {
     const { calls, authWitnesses, capsules, extraHashedArgs } = exec;
     // Global tx options
     const { cancellable, txNonce, feePaymentMethodOptions } = options;
+    // A session key may only sign calls it was granted, fail here rather than after proving
+    const session = this.auth instanceof SessionKey ? this.auth : undefined;
+    session?.assertCallsInScope(calls);
+
     // Encode the calls for the app
     const encodedCalls = await EncodedAppEntrypointCalls.create(calls, txNonce);
 
-    // Obtain the entrypoint hashed args, built from the app encoded calls and global options
+    // Obtain the entrypoint hashed args, built from the app encoded calls and global options.
+    // The argument order must match EXPECTED_ENTRYPOINT_PARAMETERS (or EXPECTED_SESSION_ENTRYPOINT_PARAMETERS), which
+    // is checked against the artifact.
     const abi = this.getEntrypointAbi();
+    const entrypointArgs = [encodedCalls, feePaymentMethodOptions, !!cancellable];
     const entrypointHashedArgs = await HashedValues.fromArgs(
-      encodeArguments(abi, [encodedCalls, feePaymentMethodOptions, !!cancellable, this.password]),
+      encodeArguments(abi, session ? [...entrypointArgs, session.toNoirStruct()] : entrypointArgs),
     );
 
-    // Generate the payload auth witness, by signing the hash of the payload
-    const appPayloadAuthWitness = await this.auth.createAuthWit(await encodedCalls.hash());
+    // Generate the payload auth witnesses, by signing the hash of the payload. Session txs also carry the password's
+    // signature over the session grant.
+    const payloadHash = await encodedCalls.hash();
+    const appPayloadAuthWitnesses = session
+      ? [await session.signPayload(payloadHash), session.getGrantWitness()]
+      : [await this.auth.createAuthWit(payloadHash)];
 
     // Assemble the tx request
     const txRequest = TxExecutionRequest.from({
@@ -65,7 +105,7 @@ export class PasswordAccountEntrypoint implements EntrypointInterface {
       functionSelector: await FunctionSelector.fromNameAndParameters(abi.name, abi.parameters),
       txContext: new TxContext(this.chainId, this.version, gasSettings),
       argsOfCalls: [...encodedCalls.hashedArguments, entrypointHashedArgs, ...extraHashedArgs],
-      authWitnesses: [...authWitnesses, appPayloadAuthWitness],
+      authWitnesses: [...authWitnesses, ...appPayloadAuthWitnesses],
       capsules,
       salt: Fr.random(),
     });
@@ -73,23 +113,20 @@ export class PasswordAccountEntrypoint implements EntrypointInterface {
     return txRequest;
   }
 
-  private getEntrypointAbi() {
-    return {
-      name: 'entrypoint',
-      isInitializer: false,
-      functionType: 'private',
-      isInternal: false,
-      isStatic: false,
-      isOnlySelf: false,
-      parameters: [{"name":"app_payload","type":{"kind":"struct","fields":[{"name":"function_calls","type":{"kind":"array","length":5,"type":{"kind":"struct","fields":[{"name":"args_hash","type":{"kind":"field"}},{"name":"function_selector","type":{"kind":"struct","fields":[{"name":"inner","type":{"kind":"integer","sign":"unsigned","width":32}}],"path":"aztec::protocol_types::abis::function_selector::FunctionSelector"}},{"name":"target_address","type":{"kind":"struct","fields":[{"name":"inner","type":{"kind":"field"}}],"path":"aztec::protocol_types::address::aztec_address::AztecAddress"}},{"name":"is_public","type":{"kind":"boolean"}},{"name":"hide_msg_sender","type":{"kind":"boolean"}},{"name":"is_static","type":{"kind":"boolean"}}],"path":"aztec::authwit::entrypoint::function_call::FunctionCall"}}},{"name":"tx_nonce","type":{"kind":"field"}}],"path":"aztec::authwit::entrypoint::app::AppPayload"},"visibility":"private"},{"name":"fee_payment_method","type":{"kind":"integer","sign":"unsigned","width":8},"visibility":"private"},{"name":"cancellable","type":{"kind":"boolean"},"visibility":"private"},{"name":"password","type":{"kind":"field"},"visibility":"private"}],
-      returnTypes: [],
-      errorTypes: {},
-    } as FunctionAbi;
+  private getEntrypointAbi(): FunctionAbi {
+    return this.auth instanceof SessionKey
+      ? getAccountEntrypointAbi(this.artifact, SESSION_ENTRYPOINT_FUNCTION_NAME)
+      : getAccountEntrypointAbi(this.artifact);
   }
 }
 
+export interface PublicAuthWitOptions {
+  /** How the approval tx pays its fee. */
+  fee?: SendInteractionOptions['fee'];
+}
+
 export class PasswordAccountInterface implements AccountInterface {
-  protected entrypoint: EntrypointInterface;
+  protected entrypoint: PasswordAccountEntrypoint;
 
   private chainId: Fr;
   private version: Fr;
@@ -98,14 +135,14 @@ export class PasswordAccountInterface implements AccountInterface {
     private authWitnessProvider: AuthWitnessProvider,
     private address: CompleteAddress,
     chainInfo: ChainInfo,
-    private password: Fr,
+    artifact: ContractArtifact = PasswordAccountContractArtifact,
   ) {
     this.entrypoint = new PasswordAccountEntrypoint(
       address.address,
       authWitnessProvider,
-      this.password,
       chainInfo.chainId.toNumber(),
       chainInfo.version.toNumber(),
+      artifact,
     );
     this.chainId = chainInfo.chainId;
     this.version = chainInfo.version;
@@ -138,32 +175,214 @@ export class PasswordAccountInterface implements AccountInterface {
   getVersion(): Fr {
     return this.version;
   }
+
+  /**
+   * Computes the message hash an authwit for `intent` is keyed on. For a `CallIntent` the consumer is the contract
+   * being called, which is what `assert_current_call_valid_authwit_public` looks up in the AuthRegistry.
+   */
+  computeAuthWitMessageHash(intent: IntentInnerHash | CallIntent): Promise<Fr> {
+    return computeAuthWitMessageHash(intent, { chainId: this.chainId, version: this.version });
+  }
+
+  /**
+   * Builds the AuthRegistry `set_authorized` call that approves, or revokes, a public action on behalf of this
+   * account. Public functions can't check signatures against the account, so approvals are stored in the registry by
+   * a tx sent from the account itself.
+   */
+  async buildPublicAuthWit(wallet: Wallet, intent: IntentInnerHash | CallIntent, authorized: boolean) {
+    const authRegistry = await AuthRegistryContract.at(ProtocolContractAddress.AuthRegistry, wallet);
+    return authRegistry.methods.set_authorized(await this.computeAuthWitMessageHash(intent), authorized);
+  }
+
+  /** Approves `intent` in the AuthRegistry, so it can be consumed once in public. */
+  async setPublicAuthWit(wallet: Wallet, intent: IntentInnerHash | CallIntent, { fee }: PublicAuthWitOptions = {}) {
+    const approval = await this.buildPublicAuthWit(wallet, intent, true);
+    return approval.send({ from: this.getAddress(), fee }).wait();
+  }
+
+  /** Revokes a previously set approval of `intent` before it is consumed. */
+  async revokePublicAuthWit(wallet: Wallet, intent: IntentInnerHash | CallIntent, { fee }: PublicAuthWitOptions = {}) {
+    const revocation = await this.buildPublicAuthWit(wallet, intent, false);
+    return revocation.send({ from: this.getAddress(), fee }).wait();
+  }
+
+  /** Returns whether `intent` is currently approved in the AuthRegistry and not yet consumed. */
+  async isPublicAuthWitValid(wallet: Wallet, intent: IntentInnerHash | CallIntent): Promise<boolean> {
+    const authRegistry = await AuthRegistryContract.at(ProtocolContractAddress.AuthRegistry, wallet);
+    return authRegistry.methods
+      .utility_is_consumable(this.getAddress(), await this.computeAuthWitMessageHash(intent))
+      .simulate({ from: this.getAddress() });
+  }
+}
+
+/** Must match PASSWORD_ROTATION_DELAY in src/main.nr (6 hours). */
+export const PASSWORD_ROTATION_DELAY = 21600;
+
+export interface RotatePasswordOptions {
+  /** Wallet the account is registered in. */
+  wallet: Wallet;
+  /** Address of the deployed password account. */
+  address: AztecAddress;
+  /** How the rotation tx pays its fee. */
+  fee?: SendInteractionOptions['fee'];
+}
+
+export interface WaitForPasswordRotationOptions {
+  /** Wallet the account is registered in. */
+  wallet: Wallet;
+  /** Address of the deployed password account. */
+  address: AztecAddress;
+  /**
+   * Called while the new password is not in effect yet. The delay only passes as blocks are mined, and a local network
+   * only mines blocks when it has txs, so this should send one there.
+   */
+  advanceBlock?: () => Promise<unknown>;
+  /** Seconds to wait for the new password to take effect. */
+  timeout?: number;
 }
 
 export class PasswordAccountContract implements AccountContract {
-  constructor(private password: Fr) {}
+  private authWitnessProvider: PasswordAuthWitnessProvider;
+
+  /**
+   * @param password - Password that currently authorizes the account.
+   * @param initialPassword - Password the account was deployed with, or its public key (see
+   * `getInitialPasswordPublicKey`). It is part of the account address, so it must be passed when loading an account
+   * whose password has since been rotated or recovered. After a recovery the old password is lost, only its public key
+   * is left.
+   */
+  constructor(private password: Fr, private initialPassword: Fr | Point = password) {
+    this.authWitnessProvider = new PasswordAuthWitnessProvider(password);
+  }
+
+  /**
+   * Public key of the password the account was deployed with. Not a secret: keep it together with the account's secret
+   * and salt, to load the account should the password be lost and recovered by its guardians.
+   */
+  getInitialPasswordPublicKey(): Promise<Point> {
+    return this.initialPassword instanceof Fr
+      ? computePasswordPublicKey(this.initialPassword)
+      : Promise.resolve(this.initialPassword);
+  }
 
   getAuthWitnessProvider(_address: CompleteAddress): AuthWitnessProvider {
-    return new PasswordAuthWitnessProvider(this.password);
+    return this.authWitnessProvider;
   }
 
   async getInitializationFunctionAndArgs() {
-    return { constructorName: 'constructor', constructorArgs: [this.password] };
+    const publicKey = await this.getInitialPasswordPublicKey();
+    return { constructorName: 'constructor', constructorArgs: [publicKey.x, publicKey.y] };
   }
 
   getContractArtifact(): Promise<ContractArtifact> {
     return Promise.resolve(PasswordAccountContractArtifact);
   };
 
-  getInterface(address: CompleteAddress, chainInfo: ChainInfo): AccountInterface {
-    return new PasswordAccountInterface(this.getAuthWitnessProvider(address), address, chainInfo, this.password);
+  getInterface(address: CompleteAddress, chainInfo: ChainInfo): PasswordAccountInterface {
+    return new PasswordAccountInterface(this.getAuthWitnessProvider(address), address, chainInfo);
+  }
+
+  /**
+   * Changes the account password on chain, authorizing the change with the current password. The new password only
+   * takes effect PASSWORD_ROTATION_DELAY seconds after the tx is mined, until then the old one keeps authorizing the
+   * account.
+   *
+   * Returns once the tx is mined, without touching the password this contract signs with: it keeps signing with the
+   * old one, which is the one the account accepts until the delay has passed. Call `waitForPasswordRotation` to switch
+   * this contract, and every interface it handed out, over to the new password once it is in effect.
+   */
+  async rotatePassword(newPassword: Fr, { wallet, address, fee }: RotatePasswordOptions) {
+    const account = await Contract.at(address, PasswordAccountContractArtifact, wallet);
+    const newPublicKey = await computePasswordPublicKey(newPassword);
+    return account.methods.change_password(newPublicKey.x, newPublicKey.y).send({ from: address, fee }).wait();
+  }
+
+  /**
+   * Waits until the password set by `rotatePassword` has taken effect, then switches the auth witness provider shared
+   * by every interface handed out by this contract over to it.
+   */
+  async waitForPasswordRotation(
+    newPassword: Fr,
+    { wallet, address, advanceBlock, timeout = PASSWORD_ROTATION_DELAY * 5 }: WaitForPasswordRotationOptions,
+  ) {
+    const account = await Contract.at(address, PasswordAccountContractArtifact, wallet);
+    const newPublicKey = await computePasswordPublicKey(newPassword);
+
+    await retryUntil(
+      async () => {
+        const publicKey = await account.methods.get_password_public_key().simulate({ from: address });
+        if (new Fr(publicKey.x).equals(newPublicKey.x) && new Fr(publicKey.y).equals(newPublicKey.y)) {
+          return true;
+        }
+        await advanceBlock?.();
+        return undefined;
+      },
+      'password rotation to take effect',
+      timeout,
+    );
+
+    this.password = newPassword;
+    this.authWitnessProvider.setPassword(newPassword);
+  }
+
+  /**
+   * Creates a session key for the account at `address`, with its grant signed by the current password. Rotating the
+   * password later revokes it.
+   */
+  createSessionKey(address: AztecAddress, chainInfo: ChainInfo, options: CreateSessionKeyOptions): Promise<SessionKey> {
+    return SessionKey.create(this.authWitnessProvider, address, chainInfo, options);
   }
 }
 
+/**
+ * Loads a PasswordAccount with a session key instead of the password, e.g. on a game client that should only ever
+ * call a few functions. Txs are sent through `session_entrypoint`, and authwits can't be created.
+ */
+export class SessionAccountContract implements AccountContract {
+  /**
+   * @param initialPasswordPublicKey - Public key of the password the account was deployed with, part of its address.
+   * See `computePasswordPublicKey`.
+   */
+  constructor(
+    private initialPasswordPublicKey: Point,
+    private sessionKey: SessionKey,
+  ) {}
+
+  getAuthWitnessProvider(_address: CompleteAddress): AuthWitnessProvider {
+    return this.sessionKey;
+  }
+
+  getInitializationFunctionAndArgs() {
+    return Promise.resolve({
+      constructorName: 'constructor',
+      constructorArgs: [this.initialPasswordPublicKey.x, this.initialPasswordPublicKey.y],
+    });
+  }
+
+  getContractArtifact(): Promise<ContractArtifact> {
+    return Promise.resolve(PasswordAccountContractArtifact);
+  }
+
+  getInterface(address: CompleteAddress, chainInfo: ChainInfo): PasswordAccountInterface {
+    return new PasswordAccountInterface(this.sessionKey, address, chainInfo);
+  }
+}
+
+/**
+ * Authorizes messages by signing their hash with the key derived from the password, so a witness proves knowledge of
+ * the password for that one message only and cannot be replayed to authorize another.
+ */
 export class PasswordAuthWitnessProvider implements AuthWitnessProvider {
   constructor(private password: Fr) {}
 
   async createAuthWit(messageHash: Fr): Promise<AuthWitness> {
-    return new AuthWitness(messageHash, [this.password]);
+    const signingKey = await derivePasswordSigningKey(this.password);
+    const signature = await new Schnorr().constructSignature(messageHash.toBuffer(), signingKey);
+    return new AuthWitness(messageHash, [...signature.toBuffer()]);
+  }
+
+  /** Replaces the password used to sign new auth witnesses. */
+  setPassword(password: Fr) {
+    this.password = password;
   }
 }
@@ -0,0 +1,220 @@
+import { AztecAddress } from '@aztec/aztec.js/addresses';
+import { Contract, type SendInteractionOptions } from '@aztec/aztec.js/contracts';
+import { Fr, type Point } from '@aztec/aztec.js/fields';
+import type { AztecNode } from '@aztec/aztec.js/node';
+import type { Wallet } from '@aztec/aztec.js/wallet';
+import { poseidon2HashWithSeparator } from '@aztec/foundation/crypto/poseidon';
+import type { AuthWitness } from '@aztec/stdlib/auth-witness';
+
+import { PasswordAccountContractArtifact, computePasswordPublicKey } from './password-account-entrypoint';
+
+/** Must match MAX_GUARDIANS in src/recovery.nr. */
+export const MAX_GUARDIANS = 5;
+/** Must match RECOVERY_DELAY in src/main.nr. */
+export const RECOVERY_DELAY = 120;
+
+/** Domain separator of the message guardians approve ("rcvr"), must match src/recovery.nr. */
+const GUARDIAN_RECOVERY_SEPARATOR = 0x72637672;
+
+/** Thrown when a recovery step is attempted before the account is ready for it. */
+export class RecoveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecoveryError';
+  }
+}
+
+/**
+ * Where a recovery stands:
+ *   - not-configured: the account has no guardians.
+ *   - collecting: approvals are being gathered off chain, nothing was submitted yet.
+ *   - pending: enough guardians approved on chain, the delay is running and the owner can still cancel.
+ *   - executable: the delay has passed, `complete` can be called.
+ */
+export type RecoveryPhase = 'not-configured' | 'collecting' | 'pending' | 'executable';
+
+export interface RecoveryProgress {
+  phase: RecoveryPhase;
+  guardians: AztecAddress[];
+  threshold: number;
+  /** Guardians whose approval this client has collected. */
+  approvedBy: AztecAddress[];
+  /** Timestamp the pending recovery becomes executable at, if one is pending. */
+  executableAt?: bigint;
+  /** Seconds left until then, 0 once executable. */
+  secondsRemaining?: bigint;
+}
+
+export interface RecoveryTxOptions {
+  /** Account that sends the tx, any account in the wallet can submit or complete a recovery. */
+  from: AztecAddress;
+  /** How the tx pays its fee. */
+  fee?: SendInteractionOptions['fee'];
+}
+
+/** Owner side options, the tx is sent from the password account itself. */
+export interface GuardianOwnerOptions {
+  fee?: SendInteractionOptions['fee'];
+}
+
+/** Inner hash guardians sign to approve recovering `account` to `newPublicKey`, as in `compute_recovery_inner_hash`. */
+export function computeRecoveryInnerHash(account: AztecAddress, newPublicKey: Point, nonce: Fr): Promise<Fr> {
+  return poseidon2HashWithSeparator(
+    [account.toField(), newPublicKey.x, newPublicKey.y, nonce],
+    GUARDIAN_RECOVERY_SEPARATOR,
+  );
+}
+
+function padGuardians(guardians: AztecAddress[]): AztecAddress[] {
+  if (guardians.length > MAX_GUARDIANS) {
+    throw new RecoveryError(`At most ${MAX_GUARDIANS} guardians are supported, got ${guardians.length}`);
+  }
+  return [...guardians, ...Array(MAX_GUARDIANS - guardians.length).fill(AztecAddress.ZERO)];
+}
+
+/**
+ * Registers the guardians of a password account. Sent through the account's entrypoint, so the wallet must hold the
+ * account with its current password.
+ */
+export async function setGuardians(
+  wallet: Wallet,
+  accountAddress: AztecAddress,
+  guardians: AztecAddress[],
+  threshold: number,
+  { fee }: GuardianOwnerOptions = {},
+) {
+  const account = await Contract.at(accountAddress, PasswordAccountContractArtifact, wallet);
+  return account.methods.set_guardians(padGuardians(guardians), threshold).send({ from: accountAddress, fee }).wait();
+}
+
+/** Cancels a pending recovery of a password account, with its current password. */
+export async function cancelRecovery(wallet: Wallet, accountAddress: AztecAddress, { fee }: GuardianOwnerOptions = {}) {
+  const account = await Contract.at(accountAddress, PasswordAccountContractArtifact, wallet);
+  return account.methods.cancel_recovery().send({ from: accountAddress, fee }).wait();
+}
+
+/**
+ * Drives the recovery of a password account to a new password: collects guardian approvals, submits them once the
+ * threshold is reached and completes the recovery after its delay.
+ *
+ * A client is bound to one recovery attempt. If it gets cancelled, start over with a new client, the approvals it
+ * collected were spent on chain.
+ */
+export class RecoveryClient {
+  private approvals = new Map<string, { guardian: AztecAddress; witness: AuthWitness }>();
+
+  /**
+   * @param wallet - Wallet that submits the recovery. It must have the password account registered as a contract.
+   * @param node - Node used to read the current block timestamp.
+   * @param accountAddress - Password account being recovered.
+   * @param newPassword - Password the account is recovered to.
+   * @param nonce - Distinguishes this attempt from earlier ones to the same password.
+   */
+  constructor(
+    private wallet: Wallet,
+    private node: AztecNode,
+    private accountAddress: AztecAddress,
+    private newPassword: Fr,
+    private nonce: Fr = Fr.random(),
+  ) {}
+
+  private getAccount() {
+    return Contract.at(this.accountAddress, PasswordAccountContractArtifact, this.wallet);
+  }
+
+  /** Inner hash each guardian has to authorize, with the password account as consumer. */
+  async getApprovalInnerHash(): Promise<Fr> {
+    return computeRecoveryInnerHash(this.accountAddress, await computePasswordPublicKey(this.newPassword), this.nonce);
+  }
+
+  /** Creates the approval of a guardian whose account is registered in `guardianWallet`. */
+  async collectApproval(guardian: AztecAddress, guardianWallet: Wallet = this.wallet) {
+    const witness = await guardianWallet.createAuthWit(guardian, {
+      consumer: this.accountAddress,
+      innerHash: await this.getApprovalInnerHash(),
+    });
+    this.addApproval(guardian, witness);
+  }
+
+  /** Adds an approval a guardian created elsewhere, e.g. from their own device. */
+  addApproval(guardian: AztecAddress, witness: AuthWitness) {
+    this.approvals.set(guardian.toString(), { guardian, witness });
+  }
+
+  async getGuardians(): Promise<{ guardians: AztecAddress[]; threshold: number }> {
+    const account = await this.getAccount();
+    const config = await account.methods.get_guardians().simulate({ from: this.accountAddress });
+    const guardians = (config.guardians as AztecAddress[]).filter(guardian => !guardian.isZero());
+    return { guardians, threshold: Number(config.threshold) };
+  }
+
+  async getProgress(): Promise<RecoveryProgress> {
+    const { guardians, threshold } = await this.getGuardians();
+    const approvedBy = [...this.approvals.values()].map(({ guardian }) => guardian);
+    if (threshold === 0) {
+      return { phase: 'not-configured', guardians, threshold, approvedBy };
+    }
+
+    const account = await this.getAccount();
+    const pendingRecovery = await account.methods.get_pending_recovery().simulate({ from: this.accountAddress });
+    const executableAt = BigInt(pendingRecovery.executable_at);
+    if (executableAt === 0n) {
+      return { phase: 'collecting', guardians, threshold, approvedBy };
+    }
+
+    const header = await this.node.getBlockHeader();
+    const now = header ? header.globalVariables.timestamp : 0n;
+    const secondsRemaining = executableAt > now ? executableAt - now : 0n;
+    return {
+      phase: secondsRemaining === 0n ? 'executable' : 'pending',
+      guardians,
+      threshold,
+      approvedBy,
+      executableAt,
+      secondsRemaining,
+    };
+  }
+
+  /** Submits the collected approvals, starting the recovery delay. */
+  async submit({ from, fee }: RecoveryTxOptions) {
+    const { guardians, threshold } = await this.getGuardians();
+    if (threshold === 0) {
+      throw new RecoveryError('Recovery is not set up for this account');
+    }
+    const approvals = [...this.approvals.values()].filter(({ guardian }) => guardians.some(g => g.equals(guardian)));
+    if (approvals.length < threshold) {
+      throw new RecoveryError(`Not enough guardian approvals: ${approvals.length} of ${threshold}`);
+    }
+
+    const newPublicKey = await computePasswordPublicKey(this.newPassword);
+    const account = await this.getAccount();
+    return account.methods
+      .initiate_recovery(
+        newPublicKey.x,
+        newPublicKey.y,
+        this.nonce,
+        padGuardians(approvals.map(({ guardian }) => guardian)),
+      )
+      .send({ from, fee, authWitnesses: approvals.map(({ witness }) => witness) })
+      .wait();
+  }
+
+  /**
+   * Completes the recovery once its delay has passed. The new password then takes effect after the account's
+   * PASSWORD_ROTATION_DELAY. Load the account with `new PasswordAccountContract(newPassword, initialPasswordPublicKey)`,
+   * the public key `getInitialPasswordPublicKey` returned when the account was deployed.
+   */
+  async complete({ from, fee }: RecoveryTxOptions) {
+    const progress = await this.getProgress();
+    if (progress.phase !== 'executable') {
+      throw new RecoveryError(
+        progress.phase === 'pending'
+          ? `Recovery delay has not passed, ${progress.secondsRemaining} seconds remaining`
+          : 'No recovery pending',
+      );
+    }
+
+    const account = await this.getAccount();
+    return account.methods.complete_recovery().send({ from, fee }).wait();
+  }
+}
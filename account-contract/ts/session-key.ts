@@ -0,0 +1,141 @@
+import { AztecAddress } from '@aztec/aztec.js/addresses';
+import { Fr, GrumpkinScalar, type Point } from '@aztec/aztec.js/fields';
+import type { AuthWitnessProvider, ChainInfo } from '@aztec/entrypoints/interfaces';
+import { poseidon2HashWithSeparator } from '@aztec/foundation/crypto/poseidon';
+import { Schnorr } from '@aztec/foundation/crypto/schnorr';
+import { type FunctionCall, FunctionSelector } from '@aztec/stdlib/abi';
+import { AuthWitness } from '@aztec/stdlib/auth-witness';
+
+/** Must match MAX_SESSION_SCOPES in src/session.nr. */
+export const MAX_SESSION_SCOPES = 4;
+
+/** Domain separator of the session grant the password signs ("sess"), must match src/session.nr. */
+const SESSION_GRANT_SEPARATOR = 0x73657373;
+
+/** A function a session key may call. */
+export interface SessionScope {
+  target: AztecAddress;
+  selector: FunctionSelector;
+}
+
+/** What the password authorizes a session key to do, as in the Noir `Session` struct. */
+export interface SessionGrant {
+  /** Public key of the session signing key. */
+  publicKey: Point;
+  /** Functions the session key may call, at most MAX_SESSION_SCOPES. */
+  scopes: SessionScope[];
+  /** Timestamp in seconds from which the session is no longer valid. Txs it signs can't be included after it either. */
+  expiresAt: bigint;
+}
+
+export interface CreateSessionKeyOptions {
+  scopes: SessionScope[];
+  expiresAt: bigint;
+  /** Session signing key, random by default. */
+  signingKey?: GrumpkinScalar;
+}
+
+/** Thrown when a session key is asked to sign something it was not granted, before any tx is simulated or proven. */
+export class SessionScopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionScopeError';
+  }
+}
+
+function padScopes(scopes: SessionScope[]): SessionScope[] {
+  if (scopes.length > MAX_SESSION_SCOPES) {
+    throw new SessionScopeError(`At most ${MAX_SESSION_SCOPES} session scopes are supported, got ${scopes.length}`);
+  }
+  const empty = { target: AztecAddress.ZERO, selector: FunctionSelector.empty() };
+  return [...scopes, ...Array(MAX_SESSION_SCOPES - scopes.length).fill(empty)];
+}
+
+/** Hash of the grant the password signs to authorize a session key on `account`, as in `Session::grant_hash`. */
+export function computeSessionGrantHash(account: AztecAddress, grant: SessionGrant, chainInfo: ChainInfo): Promise<Fr> {
+  return poseidon2HashWithSeparator(
+    [
+      account.toField(),
+      chainInfo.chainId,
+      chainInfo.version,
+      grant.publicKey.x,
+      grant.publicKey.y,
+      new Fr(grant.expiresAt),
+      ...padScopes(grant.scopes).flatMap(({ target, selector }) => [target.toField(), selector.toField()]),
+    ],
+    SESSION_GRANT_SEPARATOR,
+  );
+}
+
+/**
+ * A temporary key that signs txs for a PasswordAccount without the password, limited to the calls in its grant. Pass
+ * it to `PasswordAccountEntrypoint` (or `SessionAccountContract`) in place of the password auth witness provider.
+ *
+ * Session keys cannot authorize authwits: `verify_private_authwit` only accepts the password.
+ */
+export class SessionKey implements AuthWitnessProvider {
+  /**
+   * @param grantWitness - Password signature over the grant hash, checked by `session_entrypoint` on every tx.
+   */
+  constructor(
+    private signingKey: GrumpkinScalar,
+    public readonly grant: SessionGrant,
+    private grantWitness: AuthWitness,
+  ) {}
+
+  /**
+   * Creates a session key for `account` and has the password sign its grant. Nothing is sent on chain, the grant
+   * travels with every tx the session key signs.
+   *
+   * @param passwordAuth - Auth witness provider holding the current password of the account.
+   */
+  static async create(
+    passwordAuth: AuthWitnessProvider,
+    account: AztecAddress,
+    chainInfo: ChainInfo,
+    { scopes, expiresAt, signingKey = GrumpkinScalar.random() }: CreateSessionKeyOptions,
+  ): Promise<SessionKey> {
+    const grant = { publicKey: await new Schnorr().computePublicKey(signingKey), scopes, expiresAt };
+    const grantWitness = await passwordAuth.createAuthWit(await computeSessionGrantHash(account, grant, chainInfo));
+    return new SessionKey(signingKey, grant, grantWitness);
+  }
+
+  /** Whether the session may call `selector` on `target`. */
+  allows(target: AztecAddress, selector: FunctionSelector): boolean {
+    return this.grant.scopes.some(scope => scope.target.equals(target) && scope.selector.equals(selector));
+  }
+
+  /** Throws a `SessionScopeError` for the first call outside the session's scopes. */
+  assertCallsInScope(calls: FunctionCall[]) {
+    for (const call of calls) {
+      if (!this.allows(call.to, call.selector)) {
+        throw new SessionScopeError(
+          `Call to ${call.name} (${call.selector}) on ${call.to} is outside the session scope`,
+        );
+      }
+    }
+  }
+
+  /** Signs the hash of an app payload, authorizing it through `session_entrypoint`. */
+  async signPayload(payloadHash: Fr): Promise<AuthWitness> {
+    const signature = await new Schnorr().constructSignature(payloadHash.toBuffer(), this.signingKey);
+    return new AuthWitness(payloadHash, [...signature.toBuffer()]);
+  }
+
+  getGrantWitness(): AuthWitness {
+    return this.grantWitness;
+  }
+
+  /** The grant encoded as the `session` argument of `session_entrypoint`. */
+  toNoirStruct() {
+    return {
+      public_key: { x: this.grant.publicKey.x, y: this.grant.publicKey.y },
+      scopes: padScopes(this.grant.scopes),
+      expires_at: this.grant.expiresAt,
+    };
+  }
+
+  createAuthWit(_messageHash: Fr): Promise<AuthWitness> {
+    return Promise.reject(new SessionScopeError('Session keys cannot authorize authwits, use the password'));
+  }
+}
@@ -1,21 +1,18 @@
 import { GettingStartedContract } from '../contract/artifacts/GettingStarted.js';
-import { Fr } from '@aztec/aztec.js/fields';
 import { createAztecNodeClient, waitForNode } from '@aztec/aztec.js/node';
 import { getInitialTestAccountsData } from '@aztec/accounts/testing';
 import { TestWallet } from '@aztec/test-wallet/server';
-import { computeNoteHashNonce, computeUniqueNoteHash, siloNoteHash } from '@aztec/stdlib/hash';
-import { poseidon2HashWithSeparator } from '@aztec/foundation/crypto/poseidon';
 import fs from 'fs';
 import { exit } from 'process';
+import { findUintNoteHashes, NOTE_RANDOMNESS, STORAGE_SLOT } from './note_hashes.js';
+import { getNoteHashMembershipWitness } from './note_inclusion.js';
+import { toProverToml } from './prover_toml.js';
 
-// GENERATOR_INDEX__NOTE_HASH from Aztec protocol types
-const GENERATOR_INDEX__NOTE_HASH = 1;
 const NODE_URL = 'http://localhost:8080';
 
-// Must match NOTE_RANDOMNESS in the contract
-const NOTE_RANDOMNESS = new Fr(6969);
-// Must match the storage_slot used in create_note_for_user
-const STORAGE_SLOT = new Fr(1);
+// Bounds the Prover.toml of threshold-circuit and range-circuit prove the note's value against
+const THRESHOLD = 50n;
+const RANGE = { min: 50n, max: 100n };
 
 async function main() {
   console.log(`Connecting to Aztec node at ${NODE_URL}`);
@@ -57,56 +54,61 @@ async function main() {
     throw new Error('Cannot find txEffect from tx hash');
   }
 
-  // v3 hash computation formula:
-  // 1. commitment = poseidon2([owner, storage_slot, randomness], GENERATOR_INDEX__NOTE_HASH)
-  // 2. note_hash = poseidon2([commitment, value], GENERATOR_INDEX__NOTE_HASH)
-  const commitment = await poseidon2HashWithSeparator(
-    [deployerAddress.toField(), STORAGE_SLOT, NOTE_RANDOMNESS],
-    GENERATOR_INDEX__NOTE_HASH
-  );
-
-  const noteHash = await poseidon2HashWithSeparator(
-    [commitment, new Fr(NOTE_VALUE)],
-    GENERATOR_INDEX__NOTE_HASH
-  );
-
-  const INDEX_OF_NOTE_HASH_IN_TRANSACTION = 0;
-
   const nonceGenerator = txEffect.data.nullifiers[0];
 
-  const noteHashNonce = await computeNoteHashNonce(nonceGenerator, INDEX_OF_NOTE_HASH_IN_TRANSACTION);
-
-  const siloedNoteHash = await siloNoteHash(gettingStarted.contract.address, noteHash);
-
-  const computedUniqueNoteHash = await computeUniqueNoteHash(
-    noteHashNonce,
-    siloedNoteHash,
+  // The tx can create other notes too, look for ours among all of its note hashes
+  const { index, noteHash, noteHashNonce, siloedNoteHash, uniqueNoteHash } = await findUintNoteHashes(
+    {
+      owner: deployerAddress,
+      storageSlot: STORAGE_SLOT,
+      randomness: NOTE_RANDOMNESS,
+      value: NOTE_VALUE,
+      contract: gettingStarted.contract.address,
+      nonceGenerator,
+    },
+    txEffect.data.noteHashes
   );
 
   console.log('\n=== Note Hash Computation Verification ===');
   console.log('NOTE HASH (inner)', noteHash.toString());
   console.log('NONCE GENERATOR', nonceGenerator.toString());
+  console.log('INDEX IN TX', index, 'of', txEffect.data.noteHashes.length);
   console.log('NONCE', noteHashNonce.toString());
   console.log('SILOED NOTE HASH', siloedNoteHash.toString());
-  console.log('COMPUTED UNIQUE NOTE HASH', computedUniqueNoteHash.toString());
-  console.log('ACTUAL UNIQUE NOTE HASH  ', txEffect.data.noteHashes[0].toString());
-
-  const hashesMatch = computedUniqueNoteHash.toString() === txEffect.data.noteHashes[0].toString();
-  console.log('\n✅ HASHES MATCH:', hashesMatch);
+  console.log('UNIQUE NOTE HASH', uniqueNoteHash.toString());
+  console.log('\n✅ Computed hash matches on-chain hash');
 
-  if (!hashesMatch) {
-    console.error('❌ ERROR: Computed hash does not match on-chain hash!');
-    exit(1);
+  if (sentTx.blockNumber === undefined) {
+    throw new Error('Cannot find the block of the tx');
   }
+  // The circuit proves the note is in the note hash tree of the block that included the tx
+  const { blockNumber, noteHashTreeRoot, leafIndex, siblingPath } = await getNoteHashMembershipWitness(
+    node,
+    sentTx.blockNumber,
+    uniqueNoteHash
+  );
+  console.log('\nBLOCK NUMBER', blockNumber);
+  console.log('NOTE HASH TREE ROOT', noteHashTreeRoot.toString());
+  console.log('LEAF INDEX', leafIndex.toString());
 
-  const outputData = {
-    settled_note_hash: txEffect.data.noteHashes[0].toString(),
+  // The note's inputs to every circuit, on top of which the exact one takes the unique note hash
+  const noteInputs = {
     contract_address: gettingStarted.contract.address.toString(),
     recipient: deployerAddress.toString(),
     randomness: NOTE_RANDOMNESS.toString(),
     value: Number(NOTE_VALUE),
     storage_slot: STORAGE_SLOT.toString(),
     note_nonce: noteHashNonce.toString(),
+    note_hash_tree_root: noteHashTreeRoot.toString(),
+    leaf_index: leafIndex.toString(),
+    sibling_path: siblingPath.map((sibling) => sibling.toString()),
+  };
+  const settled_note_hash = uniqueNoteHash.toString();
+
+  const outputData = {
+    settled_note_hash,
+    ...noteInputs,
+    block_number: blockNumber,
     tx_hash: sentTx.txHash.toString(),
   };
 
@@ -116,6 +118,17 @@ async function main() {
   fs.writeFileSync('data.json', JSON.stringify(outputData, null, 2));
   console.log('\nData written to data.json');
 
+  // So `nargo execute` runs in each circuit's directory
+  const proverTomls = {
+    'circuits/Prover.toml': { settled_note_hash, ...noteInputs },
+    'threshold-circuit/Prover.toml': { ...noteInputs, threshold: THRESHOLD },
+    'range-circuit/Prover.toml': { ...noteInputs, ...RANGE },
+  };
+  for (const [path, inputs] of Object.entries(proverTomls)) {
+    fs.writeFileSync(path, toProverToml(inputs));
+    console.log(`Circuit inputs written to ${path}`);
+  }
+
   exit(0);
 }
 
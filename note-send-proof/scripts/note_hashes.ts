@@ -0,0 +1,90 @@
+import type { AztecAddress } from '@aztec/aztec.js/addresses';
+import { Fr } from '@aztec/aztec.js/fields';
+import { computeNoteHashNonce, computeUniqueNoteHash, siloNoteHash } from '@aztec/stdlib/hash';
+import { poseidon2HashWithSeparator } from '@aztec/foundation/crypto/poseidon';
+
+// GENERATOR_INDEX__NOTE_HASH from Aztec protocol types
+export const GENERATOR_INDEX__NOTE_HASH = 1;
+
+// Must match NOTE_RANDOMNESS in the contract
+export const NOTE_RANDOMNESS = new Fr(6969);
+// Must match the storage_slot used in create_note_for_user
+export const STORAGE_SLOT = new Fr(1);
+
+export interface UintNoteHashInputs {
+  /** Account the note belongs to. */
+  owner: AztecAddress;
+  storageSlot: Fr;
+  randomness: Fr;
+  value: bigint;
+  /** Contract that created the note, its hash is siloed to it. */
+  contract: AztecAddress;
+  /** First nullifier of the tx that created the note. */
+  nonceGenerator: Fr;
+  /** Position of the note hash among the tx's note hashes. */
+  index: number;
+}
+
+/** Every hash from a UintNote to the unique note hash stored in the note hash tree, in the order they're computed. */
+export interface UintNoteHashes {
+  commitment: Fr;
+  noteHash: Fr;
+  noteHashNonce: Fr;
+  siloedNoteHash: Fr;
+  uniqueNoteHash: Fr;
+}
+
+/**
+ * Computes the hashes of a UintNote as `uint-note/src/uint_note.nr` and the protocol do:
+ *
+ * 1. commitment = poseidon2([owner, storage_slot, randomness], GENERATOR_INDEX__NOTE_HASH)
+ * 2. note_hash = poseidon2([commitment, value], GENERATOR_INDEX__NOTE_HASH)
+ * 3. note_hash_nonce = poseidon2([nonce_generator, index], GENERATOR_INDEX__NOTE_HASH_NONCE)
+ * 4. siloed_note_hash = poseidon2([contract, note_hash], GENERATOR_INDEX__SILOED_NOTE_HASH)
+ * 5. unique_note_hash = poseidon2([note_hash_nonce, siloed_note_hash], GENERATOR_INDEX__UNIQUE_NOTE_HASH)
+ */
+export async function computeUintNoteHashes({
+  owner,
+  storageSlot,
+  randomness,
+  value,
+  contract,
+  nonceGenerator,
+  index,
+}: UintNoteHashInputs): Promise<UintNoteHashes> {
+  const commitment = await poseidon2HashWithSeparator(
+    [owner.toField(), storageSlot, randomness],
+    GENERATOR_INDEX__NOTE_HASH
+  );
+  const noteHash = await poseidon2HashWithSeparator([commitment, new Fr(value)], GENERATOR_INDEX__NOTE_HASH);
+  const noteHashNonce = await computeNoteHashNonce(nonceGenerator, index);
+  const siloedNoteHash = await siloNoteHash(contract, noteHash);
+  const uniqueNoteHash = await computeUniqueNoteHash(noteHashNonce, siloedNoteHash);
+
+  return { commitment, noteHash, noteHashNonce, siloedNoteHash, uniqueNoteHash };
+}
+
+export type UintNoteInputs = Omit<UintNoteHashInputs, 'index'>;
+
+export interface LocatedUintNoteHashes extends UintNoteHashes {
+  /** Position of the note hash among the tx's note hashes. */
+  index: number;
+}
+
+/**
+ * Finds a note among `noteHashes`, the unique note hashes of the tx that created it, by computing its unique note hash
+ * at each position in turn. The tx may create other notes before it, e.g. change notes or notes of other calls in a
+ * batch, so its position isn't always 0. If the tx created the same note twice, the first one is returned.
+ */
+export async function findUintNoteHashes(note: UintNoteInputs, noteHashes: Fr[]): Promise<LocatedUintNoteHashes> {
+  for (let index = 0; index < noteHashes.length; index++) {
+    const hashes = await computeUintNoteHashes({ ...note, index });
+    if (hashes.uniqueNoteHash.equals(noteHashes[index])) {
+      return { ...hashes, index };
+    }
+  }
+  throw new Error(
+    `None of the tx's ${noteHashes.length} note hashes is the note's unique note hash, ` +
+      'do the owner, storage slot, randomness and value match the note the contract created?'
+  );
+}
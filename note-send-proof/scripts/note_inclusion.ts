@@ -0,0 +1,86 @@
+import type { Fr } from '@aztec/aztec.js/fields';
+import type { AztecNode } from '@aztec/aztec.js/node';
+import { poseidon2Hash } from '@aztec/foundation/crypto/poseidon';
+
+/** Path of a unique note hash in the note hash tree, as the circuit takes it. */
+export interface NoteHashMembershipWitness {
+  /** Block whose note hash tree the path leads to the root of. */
+  blockNumber: number;
+  noteHashTreeRoot: Fr;
+  leafIndex: bigint;
+  siblingPath: Fr[];
+}
+
+/** Hashes `leaf` up `siblingPath` to the root of the tree, as `root_from_sibling_path` in the protocol circuits does. */
+export async function computeRootFromSiblingPath(leaf: Fr, leafIndex: bigint, siblingPath: Fr[]): Promise<Fr> {
+  let node = leaf;
+  let index = leafIndex;
+  for (const sibling of siblingPath) {
+    node = index % 2n === 0n ? await poseidon2Hash([node, sibling]) : await poseidon2Hash([sibling, node]);
+    index /= 2n;
+  }
+  return node;
+}
+
+/**
+ * Fetches the path of `uniqueNoteHash` in the note hash tree of block `blockNumber`. The node is trusted here, but the
+ * path is checked against the block's root so a bad witness fails now rather than when proving.
+ */
+export async function getNoteHashMembershipWitness(
+  node: AztecNode,
+  blockNumber: number,
+  uniqueNoteHash: Fr
+): Promise<NoteHashMembershipWitness> {
+  const witness = await node.getNoteHashMembershipWitness(blockNumber, uniqueNoteHash);
+  if (!witness) {
+    throw new Error(`Note hash ${uniqueNoteHash} is not in the note hash tree of block ${blockNumber}`);
+  }
+  const header = await node.getBlockHeader(blockNumber);
+  if (!header) {
+    throw new Error(`Cannot find block ${blockNumber}`);
+  }
+
+  const noteHashTreeRoot = header.state.partial.noteHashTree.root;
+  const siblingPath = [...witness.siblingPath];
+  const root = await computeRootFromSiblingPath(uniqueNoteHash, witness.leafIndex, siblingPath);
+  if (!root.equals(noteHashTreeRoot)) {
+    throw new Error(
+      `The path of note hash ${uniqueNoteHash} leads to ${root}, but the note hash tree root of block ${blockNumber} ` +
+        `is ${noteHashTreeRoot}`
+    );
+  }
+
+  return { blockNumber, noteHashTreeRoot, leafIndex: witness.leafIndex, siblingPath };
+}
+
+/**
+ * Checks that `noteHashTreeRoot`, a public input of a note proof, is the note hash tree root of block `blockNumber`,
+ * and that the block is in the archive. Without this a proof only shows the note is in some tree the prover built.
+ * Throws if either check fails.
+ */
+export async function verifyNoteHashTreeRoot(node: AztecNode, blockNumber: number, noteHashTreeRoot: Fr) {
+  const block = await node.getBlock(blockNumber);
+  if (!block) {
+    throw new Error(`Cannot find block ${blockNumber}`);
+  }
+
+  const blockRoot = block.header.state.partial.noteHashTree.root;
+  if (!blockRoot.equals(noteHashTreeRoot)) {
+    throw new Error(
+      `The proof's note hash tree root ${noteHashTreeRoot} is not the one of block ${blockNumber} (${blockRoot})`
+    );
+  }
+
+  // The archive tree holds the hash of every block header, the block's own snapshot of it includes the block
+  const headerHash = await block.header.hash();
+  const witness = await node.getArchiveMembershipWitness(blockNumber, headerHash);
+  if (!witness) {
+    throw new Error(`Block ${blockNumber} is not in the archive`);
+  }
+  const archiveRoot = await computeRootFromSiblingPath(headerHash, witness.leafIndex, [...witness.siblingPath]);
+  if (!archiveRoot.equals(block.archive.root)) {
+    throw new Error(
+      `The archive path of block ${blockNumber} leads to ${archiveRoot}, but its archive root is ${block.archive.root}`
+    );
+  }
+}
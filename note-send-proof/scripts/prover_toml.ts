@@ -0,0 +1,16 @@
+/** Value of a circuit input in Prover.toml: a field or integer, or an array of them. */
+export type ProverTomlValue = string | number | bigint | (string | number | bigint)[];
+
+const tomlString = (value: string | number | bigint) => JSON.stringify(value.toString());
+
+/**
+ * Formats circuit inputs, keyed by parameter name, as the Prover.toml `nargo execute` reads them. Every value is
+ * written as a string, which Nargo parses as a decimal or hex number whatever the parameter's type.
+ */
+export function toProverToml(inputs: Record<string, ProverTomlValue>): string {
+  return Object.entries(inputs)
+    .map(([name, value]) =>
+      Array.isArray(value) ? `${name} = [${value.map(tomlString).join(', ')}]\n` : `${name} = ${tomlString(value)}\n`
+    )
+    .join('');
+}
@@ -3,13 +3,9 @@ import {
   createPXEClient,
   waitForPXE,
   createAztecNodeClient,
-  Fr,
 } from '@aztec/aztec.js';
 import { getInitialTestAccountsWallets } from '@aztec/accounts/testing';
-import { computeNoteHashNonce, computeUniqueNoteHash, deriveStorageSlotInMap, siloNoteHash } from '@aztec/stdlib/hash';
-import { poseidon2HashWithSeparator } from '@aztec/foundation/crypto';
-
-const NOTE_HASH_SEPARATOR = 1;
+import { findUintNoteHashes, NOTE_RANDOMNESS, STORAGE_SLOT } from '../note_hashes.js';
 
 export const SANDBOX_URL = 'http://localhost:8080';
 
@@ -26,7 +22,7 @@ const gettingStarted = await GettingStartedContract.deploy(deployerWallet).send(
 
 console.log('CONTRACT DEPLOYED AT', gettingStarted.contract.address);
 
-const NOTE_VALUE = 69;
+const NOTE_VALUE = 69n;
 
 const tx = gettingStarted.contract.methods.create_note_for_user(NOTE_VALUE);
 
@@ -46,40 +42,32 @@ if (txEffect === undefined) {
   throw new Error('Cannot find txEffect from tx hash');
 }
 
-const storageSlot = await deriveStorageSlotInMap(GettingStartedContract.storage.user_private_state.slot, deployerAddress);
-
-const NOTE_RANDOMNESS = new Fr(6969);
-
-const commitment = await poseidon2HashWithSeparator([deployerAddress.toField(), NOTE_RANDOMNESS, storageSlot], NOTE_HASH_SEPARATOR);
-
-const noteHash = await poseidon2HashWithSeparator([commitment, new Fr(NOTE_VALUE)], NOTE_HASH_SEPARATOR);
-
-const INDEX_OF_NOTE_HASH_IN_TRANSACTION = 0;
-
 const nonceGenerator = txEffect?.data.nullifiers[0] ?? txRequestHash;
 
-const noteHashNonce = await computeNoteHashNonce(nonceGenerator, INDEX_OF_NOTE_HASH_IN_TRANSACTION);
-
-const siloedNoteHash = await siloNoteHash(gettingStarted.contract.address, noteHash);
-
-const computedUniqueNoteHash = await computeUniqueNoteHash(
-  noteHashNonce,
-  siloedNoteHash,
+const { noteHash, noteHashNonce, siloedNoteHash, uniqueNoteHash } = await findUintNoteHashes(
+  {
+    owner: deployerAddress,
+    storageSlot: STORAGE_SLOT,
+    randomness: NOTE_RANDOMNESS,
+    value: NOTE_VALUE,
+    contract: gettingStarted.contract.address,
+    nonceGenerator,
+  },
+  txEffect.data.noteHashes,
 );
 
 console.log('NOTE HASH', noteHash)
 console.log('NONCE GENERATOR', nonceGenerator);
 console.log('NONCE', noteHashNonce);
 console.log('SILOED NOTE HASH', siloedNoteHash);
-console.log('COMPUTED UNIQUE NOTE HASH', computedUniqueNoteHash);
-console.log('ACTUAL UNIQUE NOTE HASH', txEffect.data.noteHashes[0]);
+console.log('UNIQUE NOTE HASH', uniqueNoteHash);
 
 console.log('REQUIRED INPUT', {
-  settled_note_hash: txEffect.data.noteHashes[0],
+  settled_note_hash: uniqueNoteHash,
   contract_address: gettingStarted.contract.address,
   recipient: deployerAddress,
   randomness: NOTE_RANDOMNESS,
   value: NOTE_VALUE,
-  storage_slot: storageSlot,
+  storage_slot: STORAGE_SLOT,
   note_nonce: noteHashNonce,
 })
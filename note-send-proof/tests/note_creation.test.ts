@@ -1,24 +1,15 @@
 import { describe, expect, test, beforeAll } from '@jest/globals';
-import { Fr } from '@aztec/aztec.js/fields';
 import { createAztecNodeClient, waitForNode } from '@aztec/aztec.js/node';
 import { AztecAddress } from '@aztec/aztec.js/addresses';
+import { BatchCall } from '@aztec/aztec.js/contracts';
 import { getInitialTestAccountsData } from '@aztec/accounts/testing';
 import { TestWallet } from '@aztec/test-wallet/server';
 import type { TestWallet as TestWalletType } from '@aztec/test-wallet/server';
-import { computeNoteHashNonce, computeUniqueNoteHash, siloNoteHash } from '@aztec/stdlib/hash';
-import { poseidon2HashWithSeparator } from '@aztec/foundation/crypto/poseidon';
 import { GettingStartedContract } from '../contract/artifacts/GettingStarted.js';
+import { computeUintNoteHashes, findUintNoteHashes, NOTE_RANDOMNESS, STORAGE_SLOT } from '../scripts/note_hashes.js';
 
 const NODE_URL = 'http://localhost:8080';
 
-// GENERATOR_INDEX__NOTE_HASH from Aztec protocol types
-const GENERATOR_INDEX__NOTE_HASH = 1;
-
-// Must match NOTE_RANDOMNESS in the contract
-const NOTE_RANDOMNESS = new Fr(6969);
-// Must match the storage_slot used in create_note_for_user
-const STORAGE_SLOT = new Fr(1);
-
 // Test timeout - note creation and hash computation can take some time
 const TEST_TIMEOUT = 120000; // 120 seconds
 
@@ -89,28 +80,19 @@ describe('Note Hash Computation Verification', () => {
       throw new Error('Cannot find txEffect from tx hash');
     }
 
-    // Compute the note hash using v3 formula:
-    // 1. commitment = poseidon2([owner, storage_slot, randomness], GENERATOR_INDEX__NOTE_HASH)
-    // 2. note_hash = poseidon2([commitment, value], GENERATOR_INDEX__NOTE_HASH)
-    const commitment = await poseidon2HashWithSeparator(
-      [deployer.toField(), STORAGE_SLOT, NOTE_RANDOMNESS],
-      GENERATOR_INDEX__NOTE_HASH
-    );
-
-    const noteHash = await poseidon2HashWithSeparator(
-      [commitment, new Fr(NOTE_VALUE)],
-      GENERATOR_INDEX__NOTE_HASH
-    );
-
-    console.log('Computed inner note hash:', noteHash.toString());
-
     // Compute the unique note hash (which is what gets stored on-chain)
     const INDEX_OF_NOTE_HASH_IN_TRANSACTION = 0;
-    const nonceGenerator = txEffect.data.nullifiers[0];
-    const noteHashNonce = await computeNoteHashNonce(nonceGenerator, INDEX_OF_NOTE_HASH_IN_TRANSACTION);
-    const siloedNoteHash = await siloNoteHash(gettingStartedContract.address, noteHash);
-    const computedUniqueNoteHash = await computeUniqueNoteHash(noteHashNonce, siloedNoteHash);
+    const { noteHash, siloedNoteHash, uniqueNoteHash: computedUniqueNoteHash } = await computeUintNoteHashes({
+      owner: deployer,
+      storageSlot: STORAGE_SLOT,
+      randomness: NOTE_RANDOMNESS,
+      value: NOTE_VALUE,
+      contract: gettingStartedContract.address,
+      nonceGenerator: txEffect.data.nullifiers[0],
+      index: INDEX_OF_NOTE_HASH_IN_TRANSACTION,
+    });
 
+    console.log('Computed inner note hash:', noteHash.toString());
     console.log('Siloed note hash:', siloedNoteHash.toString());
     console.log('Computed unique note hash:', computedUniqueNoteHash.toString());
     console.log('Actual on-chain note hash:', txEffect.data.noteHashes[0].toString());
@@ -139,25 +121,66 @@ describe('Note Hash Computation Verification', () => {
       throw new Error('Cannot find txEffect from tx hash');
     }
 
-    // Compute the note hash
-    const commitment = await poseidon2HashWithSeparator(
-      [deployer.toField(), STORAGE_SLOT, NOTE_RANDOMNESS],
-      GENERATOR_INDEX__NOTE_HASH
-    );
-
-    const noteHash = await poseidon2HashWithSeparator(
-      [commitment, new Fr(NOTE_VALUE)],
-      GENERATOR_INDEX__NOTE_HASH
-    );
-
     // Compute unique hash
-    const nonceGenerator = txEffect.data.nullifiers[0];
-    const noteHashNonce = await computeNoteHashNonce(nonceGenerator, 0);
-    const siloedNoteHash = await siloNoteHash(gettingStartedContract.address, noteHash);
-    const computedUniqueNoteHash = await computeUniqueNoteHash(noteHashNonce, siloedNoteHash);
+    const { uniqueNoteHash: computedUniqueNoteHash } = await computeUintNoteHashes({
+      owner: deployer,
+      storageSlot: STORAGE_SLOT,
+      randomness: NOTE_RANDOMNESS,
+      value: NOTE_VALUE,
+      contract: gettingStartedContract.address,
+      nonceGenerator: txEffect.data.nullifiers[0],
+      index: 0,
+    });
 
     // Verify
     expect(computedUniqueNoteHash.toString()).toBe(txEffect.data.noteHashes[0].toString());
     console.log('✅ Hash verification successful for value', NOTE_VALUE.toString());
   }, TEST_TIMEOUT);
+
+  test('should find each note of a tx that creates several notes', async () => {
+    const NOTE_VALUES = [7n, 8n, 9n];
+
+    // One tx calling create_note_for_user for each value, so only the first note is at index 0
+    const tx = await new BatchCall(
+      wallet,
+      NOTE_VALUES.map((value) => gettingStartedContract.methods.create_note_for_user(value))
+    )
+      .send({ from: deployer })
+      .wait();
+
+    expect(tx.status).toBe('success');
+
+    const node = createAztecNodeClient(NODE_URL);
+    const txEffect = await node.getTxEffect(tx.txHash);
+    expect(txEffect).toBeDefined();
+    if (!txEffect) {
+      throw new Error('Cannot find txEffect from tx hash');
+    }
+
+    const noteHashes = txEffect.data.noteHashes;
+    expect(noteHashes.length).toBeGreaterThanOrEqual(NOTE_VALUES.length);
+
+    const found = await Promise.all(
+      NOTE_VALUES.map((value) =>
+        findUintNoteHashes(
+          {
+            owner: deployer,
+            storageSlot: STORAGE_SLOT,
+            randomness: NOTE_RANDOMNESS,
+            value,
+            contract: gettingStartedContract.address,
+            nonceGenerator: txEffect.data.nullifiers[0],
+          },
+          noteHashes
+        )
+      )
+    );
+
+    // Every note is at its own index, so all but one of them are after index 0
+    expect(new Set(found.map(({ index }) => index)).size).toBe(NOTE_VALUES.length);
+    for (const { index, uniqueNoteHash } of found) {
+      expect(uniqueNoteHash.toString()).toBe(noteHashes[index].toString());
+    }
+    console.log('✅ Found notes at indexes', found.map(({ index }) => index).join(', '));
+  }, TEST_TIMEOUT);
 });
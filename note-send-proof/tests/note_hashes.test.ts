@@ -0,0 +1,115 @@
+import { describe, expect, test } from '@jest/globals';
+import { Fr } from '@aztec/aztec.js/fields';
+import { AztecAddress } from '@aztec/aztec.js/addresses';
+import { computeNoteHashNonce, computeUniqueNoteHash, siloNoteHash } from '@aztec/stdlib/hash';
+import { poseidon2HashWithSeparator } from '@aztec/foundation/crypto/poseidon';
+import {
+  computeUintNoteHashes,
+  findUintNoteHashes,
+  GENERATOR_INDEX__NOTE_HASH,
+  NOTE_RANDOMNESS,
+  STORAGE_SLOT,
+  type UintNoteHashInputs,
+  type UintNoteInputs,
+} from '../scripts/note_hashes.js';
+
+// Same note as the tests in circuits/src/main.nr and note-proof/src/lib.nr: recipient 0x1, contract 0x2, storage slot 1,
+// randomness 6969, value 69
+const NOTE: UintNoteInputs = {
+  owner: AztecAddress.fromField(new Fr(1)),
+  storageSlot: STORAGE_SLOT,
+  randomness: NOTE_RANDOMNESS,
+  value: 69n,
+  contract: AztecAddress.fromField(new Fr(2)),
+  nonceGenerator: new Fr(3),
+};
+const INPUTS: UintNoteHashInputs = { ...NOTE, index: 0 };
+
+// Hashes of INPUTS, also asserted by test_hashes_the_note_as_the_scripts_do in note-proof/src/lib.nr
+const EXPECTED = {
+  commitment: '0x2a043b516e4dbbaedafd506072f36399a639283da01b13a018c090b8886c9315',
+  noteHash: '0x18c80656ed91d85846feefab4ab3ec2b2339ae8bf05bb1901a2d9d60b0b95dc9',
+  noteHashNonce: '0x2a3ae9dd0c68b66167361eba945d19d8f3e38bf9d8c02e74a67a8878319a55d3',
+  siloedNoteHash: '0x089fe69a91c01c8945bc7b34ed99d0301a37075e2f4c7d699f07df8c7cee5269',
+  uniqueNoteHash: '0x0cde8b5abbd49572b8903a1d572ea353928d2b60acf069f1b3d932c7025804be',
+};
+
+describe('computeUintNoteHashes', () => {
+  test('should compute the hashes the circuits compute for the same note', async () => {
+    const hashes = await computeUintNoteHashes(INPUTS);
+
+    expect(hashes.commitment.toString()).toBe(EXPECTED.commitment);
+    expect(hashes.noteHash.toString()).toBe(EXPECTED.noteHash);
+    expect(hashes.noteHashNonce.toString()).toBe(EXPECTED.noteHashNonce);
+    expect(hashes.siloedNoteHash.toString()).toBe(EXPECTED.siloedNoteHash);
+    expect(hashes.uniqueNoteHash.toString()).toBe(EXPECTED.uniqueNoteHash);
+  });
+
+  test('should hash the note as uint-note/src/uint_note.nr does', async () => {
+    const hashes = await computeUintNoteHashes(INPUTS);
+
+    const commitment = await poseidon2HashWithSeparator(
+      [INPUTS.owner.toField(), INPUTS.storageSlot, INPUTS.randomness],
+      GENERATOR_INDEX__NOTE_HASH
+    );
+    expect(hashes.commitment.toString()).toBe(commitment.toString());
+
+    const noteHash = await poseidon2HashWithSeparator([commitment, new Fr(INPUTS.value)], GENERATOR_INDEX__NOTE_HASH);
+    expect(hashes.noteHash.toString()).toBe(noteHash.toString());
+  });
+
+  test('should chain every intermediate hash into the unique note hash', async () => {
+    const hashes = await computeUintNoteHashes(INPUTS);
+
+    expect(hashes.noteHashNonce.toString()).toBe(
+      (await computeNoteHashNonce(INPUTS.nonceGenerator, INPUTS.index)).toString()
+    );
+    expect(hashes.siloedNoteHash.toString()).toBe((await siloNoteHash(INPUTS.contract, hashes.noteHash)).toString());
+    expect(hashes.uniqueNoteHash.toString()).toBe(
+      (await computeUniqueNoteHash(hashes.noteHashNonce, hashes.siloedNoteHash)).toString()
+    );
+  });
+
+  test('should not hash the storage slot and randomness in either order', async () => {
+    const hashes = await computeUintNoteHashes(INPUTS);
+    const swapped = await computeUintNoteHashes({
+      ...INPUTS,
+      storageSlot: INPUTS.randomness,
+      randomness: INPUTS.storageSlot,
+    });
+
+    expect(swapped.commitment.toString()).not.toBe(hashes.commitment.toString());
+    expect(swapped.uniqueNoteHash.toString()).not.toBe(hashes.uniqueNoteHash.toString());
+  });
+
+  test('should only change the nonce and unique hash with the index in the tx', async () => {
+    const first = await computeUintNoteHashes(INPUTS);
+    const second = await computeUintNoteHashes({ ...INPUTS, index: 1 });
+
+    expect(second.siloedNoteHash.toString()).toBe(first.siloedNoteHash.toString());
+    expect(second.noteHashNonce.toString()).not.toBe(first.noteHashNonce.toString());
+    expect(second.uniqueNoteHash.toString()).not.toBe(first.uniqueNoteHash.toString());
+  });
+});
+
+describe('findUintNoteHashes', () => {
+  test('should find the note after other notes of the tx', async () => {
+    const { uniqueNoteHash } = await computeUintNoteHashes({ ...NOTE, index: 2 });
+    const otherNote = await computeUintNoteHashes({ ...NOTE, value: 42n, index: 0 });
+
+    const found = await findUintNoteHashes(NOTE, [otherNote.uniqueNoteHash, Fr.random(), uniqueNoteHash]);
+
+    expect(found.index).toBe(2);
+    expect(found.uniqueNoteHash.toString()).toBe(uniqueNoteHash.toString());
+    expect(found.noteHashNonce.toString()).toBe((await computeNoteHashNonce(NOTE.nonceGenerator, 2)).toString());
+  });
+
+  test('should not match the note hash at another index', async () => {
+    // Right note, wrong position: its nonce depends on the index
+    const { uniqueNoteHash } = await computeUintNoteHashes({ ...NOTE, index: 0 });
+
+    await expect(findUintNoteHashes(NOTE, [Fr.random(), uniqueNoteHash])).rejects.toThrow(
+      "None of the tx's 2 note hashes is the note's unique note hash"
+    );
+  });
+});
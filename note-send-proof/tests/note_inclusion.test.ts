@@ -0,0 +1,113 @@
+import { describe, expect, test, beforeAll } from '@jest/globals';
+import { Fr } from '@aztec/aztec.js/fields';
+import { type AztecNode, createAztecNodeClient, waitForNode } from '@aztec/aztec.js/node';
+import { AztecAddress } from '@aztec/aztec.js/addresses';
+import { getInitialTestAccountsData } from '@aztec/accounts/testing';
+import { TestWallet } from '@aztec/test-wallet/server';
+import { poseidon2Hash } from '@aztec/foundation/crypto/poseidon';
+import { GettingStartedContract } from '../contract/artifacts/GettingStarted.js';
+import { findUintNoteHashes, NOTE_RANDOMNESS, STORAGE_SLOT } from '../scripts/note_hashes.js';
+import {
+  computeRootFromSiblingPath,
+  getNoteHashMembershipWitness,
+  type NoteHashMembershipWitness,
+  verifyNoteHashTreeRoot,
+} from '../scripts/note_inclusion.js';
+
+const NODE_URL = 'http://localhost:8080';
+
+// Test timeout - note creation and hash computation can take some time
+const TEST_TIMEOUT = 120000; // 120 seconds
+
+describe('computeRootFromSiblingPath', () => {
+  test('should hash the leaf up the path on the side given by its index', async () => {
+    const [leaf, first, second] = [new Fr(1), new Fr(2), new Fr(3)];
+
+    // Index 2 = 0b10: the leaf is a left child, its parent a right child
+    const expected = await poseidon2Hash([second, await poseidon2Hash([leaf, first])]);
+    const root = await computeRootFromSiblingPath(leaf, 2n, [first, second]);
+
+    expect(root.toString()).toBe(expected.toString());
+  });
+});
+
+describe('Note Hash Tree Inclusion', () => {
+  let node: AztecNode;
+  let wallet: TestWallet;
+  let deployer: AztecAddress;
+  let gettingStartedContract: GettingStartedContract;
+  let uniqueNoteHash: Fr;
+  let witness: NoteHashMembershipWitness;
+
+  beforeAll(async () => {
+    console.log(`Connecting to Aztec node at ${NODE_URL}`);
+    node = createAztecNodeClient(NODE_URL);
+    await waitForNode(node);
+
+    // Own PXE data, jest can run this file alongside note_creation.test.ts
+    wallet = await TestWallet.create(node, { dataDirectory: 'pxe-inclusion-test-data' });
+
+    const accountsData = await getInitialTestAccountsData();
+    const deployerAccount = await wallet.createSchnorrAccount(
+      accountsData[0].secret,
+      accountsData[0].salt,
+      accountsData[0].signingKey
+    );
+    deployer = deployerAccount.address;
+
+    gettingStartedContract = await GettingStartedContract.deploy(wallet, deployer)
+      .send({ from: deployer })
+      .deployed();
+  }, TEST_TIMEOUT);
+
+  test('should fetch the path of a new note to the root of its block', async () => {
+    const NOTE_VALUE = 69n;
+    const tx = await gettingStartedContract.methods
+      .create_note_for_user(NOTE_VALUE)
+      .send({ from: deployer })
+      .wait();
+    expect(tx.blockNumber).toBeDefined();
+
+    const txEffect = await node.getTxEffect(tx.txHash);
+    if (!txEffect) {
+      throw new Error('Cannot find txEffect from tx hash');
+    }
+    ({ uniqueNoteHash } = await findUintNoteHashes(
+      {
+        owner: deployer,
+        storageSlot: STORAGE_SLOT,
+        randomness: NOTE_RANDOMNESS,
+        value: NOTE_VALUE,
+        contract: gettingStartedContract.address,
+        nonceGenerator: txEffect.data.nullifiers[0],
+      },
+      txEffect.data.noteHashes
+    ));
+
+    witness = await getNoteHashMembershipWitness(node, tx.blockNumber!, uniqueNoteHash);
+
+    const header = await node.getBlockHeader(tx.blockNumber!);
+    expect(witness.noteHashTreeRoot.toString()).toBe(header!.state.partial.noteHashTree.root.toString());
+    const root = await computeRootFromSiblingPath(uniqueNoteHash, witness.leafIndex, witness.siblingPath);
+    expect(root.toString()).toBe(witness.noteHashTreeRoot.toString());
+  }, TEST_TIMEOUT);
+
+  test('should not find a note hash that was never inserted', async () => {
+    await expect(getNoteHashMembershipWitness(node, witness.blockNumber, Fr.random())).rejects.toThrow(
+      'is not in the note hash tree of block'
+    );
+  }, TEST_TIMEOUT);
+
+  test('should accept the root of the block in the archive', async () => {
+    await expect(verifyNoteHashTreeRoot(node, witness.blockNumber, witness.noteHashTreeRoot)).resolves.toBeUndefined();
+  }, TEST_TIMEOUT);
+
+  test('should reject a root that is not the one of the block', async () => {
+    // E.g. the root of a tree the prover built with a note that was never created
+    const madeUpRoot = await computeRootFromSiblingPath(Fr.random(), witness.leafIndex, witness.siblingPath);
+
+    await expect(verifyNoteHashTreeRoot(node, witness.blockNumber, madeUpRoot)).rejects.toThrow(
+      `is not the one of block ${witness.blockNumber}`
+    );
+  }, TEST_TIMEOUT);
+});
@@ -0,0 +1,17 @@
+import { describe, expect, test } from '@jest/globals';
+import { toProverToml } from '../scripts/prover_toml.js';
+
+describe('toProverToml', () => {
+  test('should write each input as a string, and arrays of them', () => {
+    const toml = toProverToml({
+      recipient: '0x01',
+      value: 69,
+      threshold: 50n,
+      sibling_path: ['0x02', 3n],
+    });
+
+    expect(toml).toBe(
+      ['recipient = "0x01"', 'value = "69"', 'threshold = "50"', 'sibling_path = ["0x02", "3"]', ''].join('\n')
+    );
+  });
+});
@@ -1,81 +1,70 @@
-import { useState } from 'react'
-import { UltraHonkBackend } from "@aztec/bb.js";
-import circuit from "../../circuits/target/circuits.json" with { type: "json" };
-import { Noir, type CompiledCircuit } from "@aztec/noir-noir_js";
+import { useEffect, useState } from 'react'
+import {
+  createProofBundle,
+  downloadProofBundle,
+  parseBlockNumber,
+  type ProofBundle,
+  proofBundleUrl,
+  readProofBundleFile,
+  readProofBundleFragment,
+  validateProofBundle,
+} from './bundle'
+import {
+  generateNoteProof,
+  type NoteInputs,
+  type NoteProof,
+  type NoteProofVerification,
+  PROOF_MODES,
+  type ProofMode,
+  type StatementInputs,
+  verifyNoteProof,
+} from './proof'
+import { checkNoteHashTreeRoot, DEFAULT_NODE_URL, type RootCheck } from './node'
 import './App.css'
 
-interface GenerateProofInputs {
-  settled_note_hash: string;
-  contract_address: string;
-  recipient: string;
-  randomness: string;
-  value: string;
-  storage_slot: string;
-  note_nonce: string;
-}
+function ProofBundleExport({ bundle }: { bundle: ProofBundle }) {
+  const [copied, setCopied] = useState(false);
 
-interface GenerateProofResult {
-  proof: Uint8Array;
-  publicInputs: string[];
-  verified: boolean;
-  witness: Uint8Array;
-}
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(proofBundleUrl(bundle));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
 
-interface VerifyProofInputs {
-  proof: Uint8Array,
-  public_inputs: string[]
+  return (
+    <div className="bundle-actions">
+      <button type="button" className="copy-button" onClick={() => downloadProofBundle(bundle)}>
+        Download Bundle
+      </button>
+      <button type="button" className="copy-button" onClick={copyLink}>
+        {copied ? 'Link Copied' : 'Copy Link'}
+      </button>
+    </div>
+  );
 }
 
-interface VerifyProofResult {
-  verified: boolean;
+function ProofBundleImport({ onFile }: { onFile: (file: File) => void }) {
+  return (
+    <label className="bundle-import">
+      Import a proof bundle: drop its file anywhere on the page, or
+      <input
+        type="file"
+        accept="application/json,.json"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) onFile(file);
+          e.target.value = '';
+        }}
+      />
+    </label>
+  );
 }
 
-const createProof = async (inputs: GenerateProofInputs): Promise<GenerateProofResult> => {
-  console.log('Generating proof...');
-
-  const noir = new Noir(circuit as CompiledCircuit);
-  const honk = new UltraHonkBackend(circuit.bytecode);
-
-  const { witness } = await noir.execute({
-    settled_note_hash: inputs.settled_note_hash,
-    contract_address: inputs.contract_address,
-    recipient: inputs.recipient,
-    randomness: inputs.randomness,
-    value: inputs.value,
-    storage_slot: inputs.storage_slot,
-    note_nonce: inputs.note_nonce,
-  });
-
-  const { proof, publicInputs } = await honk.generateProof(witness);
-
-  const verified = await honk.verifyProof({ proof, publicInputs });
-
-  return {
-    proof,
-    publicInputs,
-    verified,
-    witness
-  };
-};
-
-const verifyProof = async (inputs: VerifyProofInputs): Promise<VerifyProofResult> => {
-  console.log('Verifying proof...');
-
-  const honk = new UltraHonkBackend(circuit.bytecode);
-  const verified = await honk.verifyProof({
-    proof: inputs.proof,
-    publicInputs: inputs.public_inputs
-  });
-
-  return {
-    verified,
-  }
-};
-
 function App() {
   const [activeTab, setActiveTab] = useState<'generate' | 'verify'>('generate');
   const [isTransitioning, setIsTransitioning] = useState(false);
-  const [formData, setFormData] = useState<GenerateProofInputs>({
+  const [mode, setMode] = useState<ProofMode>('exact');
+  const [formData, setFormData] = useState<NoteInputs>({
     settled_note_hash: '',
     contract_address: '',
     recipient: '',
@@ -83,15 +72,25 @@ function App() {
     value: '',
     storage_slot: '',
     note_nonce: '',
+    note_hash_tree_root: '',
+    leaf_index: '',
+    sibling_path: '',
+    block_number: '',
   });
-
-  const [verifyData, setVerifyData] = useState({
-    proof: '',
-    publicInputs: '',
+  const [statementData, setStatementData] = useState<StatementInputs>({
+    threshold: '',
+    min: '',
+    max: '',
   });
 
-  const [proofResult, setProofResult] = useState<GenerateProofResult | null>(null);
-  const [verifyResult, setVerifyResult] = useState<{ verified: boolean } | null>(null);
+  const [verifyBundle, setVerifyBundle] = useState<ProofBundle | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const [proofResult, setProofResult] = useState<NoteProof | null>(null);
+  const [proofBundle, setProofBundle] = useState<ProofBundle | null>(null);
+  const [verifyResult, setVerifyResult] = useState<NoteProofVerification | null>(null);
+  const [nodeUrl, setNodeUrl] = useState(DEFAULT_NODE_URL);
+  const [rootCheck, setRootCheck] = useState<RootCheck | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isVerifying, setIsVerifying] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -105,23 +104,83 @@ function App() {
     }));
   };
 
-  const handleVerifyInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+  const handleStatementInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setStatementData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  const handleTextAreaChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const { name, value } = e.target;
-    setVerifyData(prev => ({
+    setFormData(prev => ({
       ...prev,
       [name]: value
     }));
   };
 
+  // Bundles open in the verify tab, whichever tab they were imported from
+  const loadBundle = (bundle: ProofBundle) => {
+    setVerifyBundle(bundle);
+    setVerifyResult(null);
+    setRootCheck(null);
+    setVerifyError(null);
+    setActiveTab('verify');
+  };
+
+  const handleBundleFile = async (file: File) => {
+    try {
+      loadBundle(await readProofBundleFile(file));
+    } catch (err) {
+      setVerifyBundle(null);
+      setVerifyResult(null);
+      setRootCheck(null);
+      setVerifyError(err instanceof Error ? err.message : 'An error occurred while reading the proof bundle');
+      setActiveTab('verify');
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleBundleFile(file);
+  };
+
+  // Opens the bundle of links made with Copy Link
+  useEffect(() => {
+    const openFragment = () => {
+      try {
+        const bundle = readProofBundleFragment(window.location.hash);
+        if (!bundle) return;
+        setVerifyBundle(bundle);
+        setVerifyResult(null);
+        setRootCheck(null);
+        setVerifyError(null);
+        setActiveTab('verify');
+      } catch (err) {
+        setVerifyError(err instanceof Error ? err.message : 'An error occurred while reading the proof link');
+        setActiveTab('verify');
+      }
+    };
+    openFragment();
+    window.addEventListener('hashchange', openFragment);
+    return () => window.removeEventListener('hashchange', openFragment);
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setError(null);
     setProofResult(null);
+    setProofBundle(null);
 
     try {
-      const result = await createProof(formData);
+      const blockNumber = parseBlockNumber(formData.block_number);
+      const result = await generateNoteProof(mode, formData, statementData);
       setProofResult(result);
+      setProofBundle(await createProofBundle(result.mode, result.proof, result.publicInputs, blockNumber));
 
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred while generating the proof');
@@ -132,16 +191,23 @@ function App() {
 
   const handleVerifySubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!verifyBundle) return;
     setIsVerifying(true);
     setVerifyError(null);
     setVerifyResult(null);
+    setRootCheck(null);
 
     try {
-      const result = await verifyProof({
-        proof: new Uint8Array(verifyData.proof.split(',').map(x => parseInt(x.trim()))),
-        public_inputs: JSON.parse(verifyData.publicInputs),
-      });
+      // Checked against the loaded circuits first, so a bundle of another build fails with a clear error
+      const { mode, proof } = await validateProofBundle(verifyBundle);
+      const result = await verifyNoteProof(proof, verifyBundle.publicInputs, [mode]);
       setVerifyResult(result);
+      if (result.verified) {
+        // The proof only shows the note is in a tree with this root, the node tells whether it's the chain's
+        setRootCheck(
+          await checkNoteHashTreeRoot(nodeUrl, verifyBundle.blockNumber, verifyBundle.fields.noteHashTreeRoot)
+        );
+      }
 
     } catch (err) {
       setVerifyError(err instanceof Error ? err.message : 'An error occurred while verifying the proof');
@@ -161,7 +227,15 @@ function App() {
   };
 
   return (
-    <div className="app-container">
+    <div
+      className={`app-container ${isDragging ? 'dragging' : ''}`}
+      onDragOver={e => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
       <h1>Aztec Note Send Proof</h1>
 
       <div className="tab-buttons">
@@ -182,19 +256,32 @@ function App() {
       <div className={`tab-content ${isTransitioning ? 'fade-out' : ''}`}>
         {activeTab === 'generate' ? (
           <>
+            <ProofBundleImport onFile={handleBundleFile} />
+
             <form onSubmit={handleSubmit} className="proof-form">
         <div className="form-group">
-          <label htmlFor="settled_note_hash">Settled Note Hash:</label>
-          <input
-            type="text"
-            id="settled_note_hash"
-            name="settled_note_hash"
-            value={formData.settled_note_hash}
-            onChange={handleInputChange}
-            required
-          />
+          <label htmlFor="mode">Statement:</label>
+          <select id="mode" name="mode" value={mode} onChange={e => setMode(e.target.value as ProofMode)}>
+            {(Object.keys(PROOF_MODES) as ProofMode[]).map(key => (
+              <option key={key} value={key}>{PROOF_MODES[key].label}</option>
+            ))}
+          </select>
         </div>
 
+        {mode === 'exact' && (
+          <div className="form-group">
+            <label htmlFor="settled_note_hash">Settled Note Hash:</label>
+            <input
+              type="text"
+              id="settled_note_hash"
+              name="settled_note_hash"
+              value={formData.settled_note_hash}
+              onChange={handleInputChange}
+              required
+            />
+          </div>
+        )}
+
         <div className="form-group">
           <label htmlFor="contract_address">Contract Address:</label>
           <input
@@ -232,7 +319,7 @@ function App() {
         </div>
 
         <div className="form-group">
-          <label htmlFor="value">Value:</label>
+          <label htmlFor="value">Value{mode === 'exact' ? ' (public)' : ' (private)'}:</label>
           <input
             type="text"
             id="value"
@@ -243,6 +330,48 @@ function App() {
           />
         </div>
 
+        {mode === 'threshold' && (
+          <div className="form-group">
+            <label htmlFor="threshold">Threshold (public, proves value ≥ threshold):</label>
+            <input
+              type="text"
+              id="threshold"
+              name="threshold"
+              value={statementData.threshold}
+              onChange={handleStatementInputChange}
+              required
+            />
+          </div>
+        )}
+
+        {mode === 'range' && (
+          <>
+            <div className="form-group">
+              <label htmlFor="min">Min (public):</label>
+              <input
+                type="text"
+                id="min"
+                name="min"
+                value={statementData.min}
+                onChange={handleStatementInputChange}
+                required
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="max">Max (public, proves min ≤ value ≤ max):</label>
+              <input
+                type="text"
+                id="max"
+                name="max"
+                value={statementData.max}
+                onChange={handleStatementInputChange}
+                required
+              />
+            </div>
+          </>
+        )}
+
         <div className="form-group">
           <label htmlFor="storage_slot">Storage Slot:</label>
           <input
@@ -267,6 +396,55 @@ function App() {
           />
         </div>
 
+        <div className="form-group">
+          <label htmlFor="note_hash_tree_root">Note Hash Tree Root:</label>
+          <input
+            type="text"
+            id="note_hash_tree_root"
+            name="note_hash_tree_root"
+            value={formData.note_hash_tree_root}
+            onChange={handleInputChange}
+            required
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="leaf_index">Leaf Index:</label>
+          <input
+            type="text"
+            id="leaf_index"
+            name="leaf_index"
+            value={formData.leaf_index}
+            onChange={handleInputChange}
+            required
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="sibling_path">Sibling Path (JSON array):</label>
+          <textarea
+            id="sibling_path"
+            name="sibling_path"
+            value={formData.sibling_path}
+            onChange={handleTextAreaChange}
+            placeholder='["0x123", "0x456"]'
+            rows={4}
+            required
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="block_number">Block Number:</label>
+          <input
+            type="text"
+            id="block_number"
+            name="block_number"
+            value={formData.block_number}
+            onChange={handleInputChange}
+            required
+          />
+        </div>
+
         <button type="submit" className="submit-button" disabled={isLoading}>
           {isLoading ? 'Generating Proof...' : 'Generate Proof'}
         </button>
@@ -290,6 +468,11 @@ function App() {
             </div>
           </div>
 
+          <div className="result-section">
+            <h3>Statement ({PROOF_MODES[proofResult.mode].label})</h3>
+            <p className="statement">{proofResult.statement}</p>
+          </div>
+
           <div className="result-section">
             <h3>Witness</h3>
             <div className="data-display">
@@ -316,12 +499,7 @@ function App() {
             <div className="data-display">
               <div className="data-info">
                 <span>Length: {proofResult.proof.length} bytes</span>
-                <button
-                  className="copy-button"
-                  onClick={() => navigator.clipboard.writeText(Array.from(proofResult.proof).join(','))}
-                >
-                  Copy as Array
-                </button>
+                {proofBundle && <ProofBundleExport bundle={proofBundle} />}
               </div>
               <div className="hex-display">
                 {Array.from(proofResult.proof.slice(0, 100)).map(byte =>
@@ -354,34 +532,36 @@ function App() {
           </>
         ) : (
           <>
+            <ProofBundleImport onFile={handleBundleFile} />
+
             <form onSubmit={handleVerifySubmit} className="proof-form">
-            <div className="form-group">
-              <label htmlFor="proof">Proof (comma-separated bytes):</label>
-              <textarea
-                id="proof"
-                name="proof"
-                value={verifyData.proof}
-                onChange={handleVerifyInputChange}
-                placeholder="1,2,3,4,5..."
-                rows={6}
-                required
-              />
-            </div>
+            {verifyBundle ? (
+              <div className="data-display">
+                <div className="data-info">
+                  <span>
+                    {verifyBundle.circuit}, {verifyBundle.publicInputs.length} public inputs, block {verifyBundle.blockNumber}
+                  </span>
+                  <ProofBundleExport bundle={verifyBundle} />
+                </div>
+                <pre>{JSON.stringify(verifyBundle.fields, null, 2)}</pre>
+              </div>
+            ) : (
+              <p className="step-hint">No proof bundle loaded yet.</p>
+            )}
 
             <div className="form-group">
-              <label htmlFor="publicInputs">Public Inputs (JSON array):</label>
-              <textarea
-                id="publicInputs"
-                name="publicInputs"
-                value={verifyData.publicInputs}
-                onChange={handleVerifyInputChange}
-                placeholder='["0x123", "0x456"]'
-                rows={4}
+              <label htmlFor="node_url">Aztec Node (checks the note hash tree root):</label>
+              <input
+                type="text"
+                id="node_url"
+                name="node_url"
+                value={nodeUrl}
+                onChange={e => setNodeUrl(e.target.value)}
                 required
               />
             </div>
 
-            <button type="submit" className="verify-button" disabled={isVerifying}>
+            <button type="submit" className="verify-button" disabled={isVerifying || !verifyBundle}>
               {isVerifying ? 'Verifying...' : 'Verify Proof'}
             </button>
           </form>
@@ -399,6 +579,28 @@ function App() {
               <div className={`verification-status ${verifyResult.verified ? 'verified' : 'failed'}`}>
                 {verifyResult.verified ? '✅ Proof Verified Successfully' : '❌ Proof Verification Failed'}
               </div>
+              {verifyResult.mode && (
+                <div className="result-section">
+                  <h3>Proven Statement ({PROOF_MODES[verifyResult.mode].label})</h3>
+                  <p className="statement">{verifyResult.statement}</p>
+                </div>
+              )}
+              {rootCheck && (
+                <div className="result-section">
+                  <h3>Note Hash Tree Root</h3>
+                  {rootCheck.status === 'matches' ? (
+                    <div className="verification-status verified">
+                      ✅ The root of block {rootCheck.blockNumber} on {rootCheck.nodeUrl}
+                    </div>
+                  ) : rootCheck.status === 'mismatch' ? (
+                    <div className="verification-status failed">❌ {rootCheck.message}</div>
+                  ) : (
+                    <div className="verification-status unchecked">
+                      ⚠️ Unchecked, the proof only shows the note is in some tree with this root. {rootCheck.message}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           )}
           </>
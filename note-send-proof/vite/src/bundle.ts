@@ -0,0 +1,191 @@
+import { UltraHonkBackend } from "@aztec/bb.js";
+import { namePublicInputs, PROOF_MODES, type ProofMode, type PublicInputFields } from './proof';
+
+export const PROOF_BUNDLE_VERSION = 2;
+
+/** Everything needed to verify a note proof, in one JSON document that can be saved, dropped or linked. */
+export interface ProofBundle {
+  version: typeof PROOF_BUNDLE_VERSION;
+  /** Circuit the proof was made with, e.g. `threshold_circuit` */
+  circuit: string;
+  /** sha256 of the circuit's verification key, to tell apart builds of the same circuit */
+  vkHash: string;
+  /** Proof bytes, base64 encoded */
+  proof: string;
+  publicInputs: string[];
+  /** Block whose note hash tree root the proof's `noteHashTreeRoot` public input must be */
+  blockNumber: number;
+  /** The public inputs by name, e.g. contract, recipient and value */
+  fields: PublicInputFields;
+}
+
+const FRAGMENT_KEY = 'proof';
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const isBlockNumber = (value: unknown): value is number => Number.isSafeInteger(value) && (value as number) >= 0;
+
+/** Reads a block number typed in a form. Throws unless it is a non-negative integer. */
+export const parseBlockNumber = (value: string) => {
+  const blockNumber = value.trim() === '' ? NaN : Number(value);
+  if (!isBlockNumber(blockNumber)) {
+    throw new Error(`Block number must be a non-negative integer, got "${value}"`);
+  }
+  return blockNumber;
+};
+
+const modeOf = (circuit: string) =>
+  (Object.keys(PROOF_MODES) as ProofMode[]).find(mode => PROOF_MODES[mode].circuitId === circuit);
+
+/** sha256 of the verification key of `mode`'s circuit, as loaded by the app. */
+export const computeVkHash = async (mode: ProofMode) => {
+  const vk = await new UltraHonkBackend(PROOF_MODES[mode].circuit.bytecode).getVerificationKey();
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', vk));
+  return `0x${Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+};
+
+export const createProofBundle = async (
+  mode: ProofMode,
+  proof: Uint8Array,
+  publicInputs: string[],
+  blockNumber: number,
+): Promise<ProofBundle> => {
+  if (!isBlockNumber(blockNumber)) {
+    throw new Error(`Block number must be a non-negative integer, got ${blockNumber}`);
+  }
+  return {
+    version: PROOF_BUNDLE_VERSION,
+    circuit: PROOF_MODES[mode].circuitId,
+    vkHash: await computeVkHash(mode),
+    proof: toBase64(proof),
+    publicInputs,
+    blockNumber,
+    fields: namePublicInputs(mode, publicInputs),
+  };
+};
+
+/** Checks that `value` has the shape of a proof bundle of a version this app reads. Throws otherwise. */
+export const parseProofBundle = (value: unknown): ProofBundle => {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('Proof bundle must be a JSON object');
+  }
+  const bundle = value as Record<string, unknown>;
+  if (bundle.version !== PROOF_BUNDLE_VERSION) {
+    throw new Error(`Unsupported proof bundle version ${bundle.version}, this app reads version ${PROOF_BUNDLE_VERSION}`);
+  }
+  for (const key of ['circuit', 'vkHash', 'proof'] as const) {
+    if (typeof bundle[key] !== 'string') {
+      throw new Error(`Proof bundle ${key} must be a string`);
+    }
+  }
+  if (!Array.isArray(bundle.publicInputs) || !bundle.publicInputs.every(input => typeof input === 'string')) {
+    throw new Error('Proof bundle publicInputs must be an array of strings');
+  }
+  if (!isBlockNumber(bundle.blockNumber)) {
+    throw new Error('Proof bundle blockNumber must be a non-negative integer');
+  }
+  if (typeof bundle.fields !== 'object' || bundle.fields === null) {
+    throw new Error('Proof bundle fields must be an object');
+  }
+  return bundle as unknown as ProofBundle;
+};
+
+/**
+ * Checks a bundle against the circuits the app loaded: its circuit must be one of them, with the same verification
+ * key, the same number of public inputs, and fields naming those public inputs. Returns the bundle's mode and proof
+ * bytes, ready to verify. Throws otherwise.
+ */
+export const validateProofBundle = async (bundle: ProofBundle): Promise<{ mode: ProofMode; proof: Uint8Array }> => {
+  const mode = modeOf(bundle.circuit);
+  if (!mode) {
+    const circuits = Object.values(PROOF_MODES).map(({ circuitId }) => circuitId).join(', ');
+    throw new Error(`Unknown circuit ${bundle.circuit}, this app verifies proofs of ${circuits}`);
+  }
+  const { circuit, publicInputNames } = PROOF_MODES[mode];
+
+  const vkHash = await computeVkHash(mode);
+  if (bundle.vkHash !== vkHash) {
+    throw new Error(
+      `The proof was made with another build of ${bundle.circuit} (VK hash ${bundle.vkHash}, loaded ${vkHash}). ` +
+        'Recompile the circuits or regenerate the proof.'
+    );
+  }
+
+  // The public inputs of these circuits are all single fields
+  const circuitPublicInputs = circuit.abi.parameters.filter(parameter => parameter.visibility === 'public').length;
+  if (bundle.publicInputs.length !== circuitPublicInputs) {
+    throw new Error(
+      `The proof has ${bundle.publicInputs.length} public inputs, but ${bundle.circuit} has ${circuitPublicInputs}`
+    );
+  }
+
+  // Fields are only for display, they must not state something the public inputs don't
+  const expected = namePublicInputs(mode, bundle.publicInputs);
+  for (const name of publicInputNames) {
+    if (bundle.fields[name] !== expected[name]) {
+      throw new Error(`Proof bundle field ${name} is ${bundle.fields[name]}, but its public input is ${expected[name]}`);
+    }
+  }
+
+  let proof: Uint8Array;
+  try {
+    proof = fromBase64(bundle.proof);
+  } catch {
+    throw new Error('Proof bundle proof is not valid base64');
+  }
+  return { mode, proof };
+};
+
+export const serializeProofBundle = (bundle: ProofBundle) => JSON.stringify(bundle, null, 2);
+
+/** Reads a bundle from a file, e.g. one dropped on the page. */
+export const readProofBundleFile = async (file: File) => {
+  try {
+    return parseProofBundle(JSON.parse(await file.text()));
+  } catch (err) {
+    throw new Error(`${file.name}: ${err instanceof Error ? err.message : err}`);
+  }
+};
+
+/** Saves `bundle` as a JSON file through the browser's downloads. */
+export const downloadProofBundle = (bundle: ProofBundle) => {
+  const url = URL.createObjectURL(new Blob([serializeProofBundle(bundle)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${bundle.circuit}-proof.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Link to this page that opens `bundle` in the verify tab. The fragment isn't sent to any server. */
+export const proofBundleUrl = (bundle: ProofBundle) => {
+  const encoded = toBase64(new TextEncoder().encode(JSON.stringify(bundle)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  const url = new URL(window.location.href);
+  url.hash = `${FRAGMENT_KEY}=${encoded}`;
+  return url.toString();
+};
+
+/** Reads the bundle in a URL fragment made by `proofBundleUrl`, if there is one. */
+export const readProofBundleFragment = (hash: string): ProofBundle | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(FRAGMENT_KEY);
+  if (!encoded) {
+    return null;
+  }
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  try {
+    return parseProofBundle(JSON.parse(new TextDecoder().decode(fromBase64(base64))));
+  } catch (err) {
+    throw new Error(`Proof link: ${err instanceof Error ? err.message : err}`);
+  }
+};
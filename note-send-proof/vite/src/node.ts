@@ -0,0 +1,59 @@
+/** The local network's Aztec node, where `yarn data` creates the note. */
+export const DEFAULT_NODE_URL = 'http://localhost:8080';
+
+/** Outcome of checking a proof's note hash tree root against a node. */
+export type RootCheck =
+  | { status: 'matches'; blockNumber: number; nodeUrl: string }
+  | { status: 'mismatch' | 'unchecked'; message: string };
+
+interface BlockHeaderJson {
+  state: { partial: { noteHashTree: { root: string } } };
+}
+
+const getBlockHeader = async (nodeUrl: string, blockNumber: number): Promise<BlockHeaderJson | undefined> => {
+  const response = await fetch(nodeUrl, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'node_getBlockHeader', params: [blockNumber] }),
+  });
+  if (!response.ok) {
+    throw new Error(`${nodeUrl} answered ${response.status} ${response.statusText}`);
+  }
+  const body = await response.json();
+  if (body.error) {
+    throw new Error(`${nodeUrl}: ${body.error.message}`);
+  }
+  return body.result;
+};
+
+/**
+ * Checks that `noteHashTreeRoot`, a public input of a note proof, is the note hash tree root of block `blockNumber` on
+ * the node at `nodeUrl`. Without this a proof only shows the note is in some tree the prover built.
+ *
+ * The node is trusted to serve the block's header, `verifyNoteHashTreeRoot` in scripts/note_inclusion.ts also checks
+ * the block is in the archive. Never throws: a node that can't be reached leaves the root unchecked.
+ */
+export const checkNoteHashTreeRoot = async (
+  nodeUrl: string,
+  blockNumber: number,
+  noteHashTreeRoot: string,
+): Promise<RootCheck> => {
+  let header: BlockHeaderJson | undefined;
+  try {
+    header = await getBlockHeader(nodeUrl, blockNumber);
+  } catch (err) {
+    return { status: 'unchecked', message: `Cannot fetch block ${blockNumber}: ${err instanceof Error ? err.message : err}` };
+  }
+  if (!header) {
+    return { status: 'mismatch', message: `${nodeUrl} has no block ${blockNumber}` };
+  }
+
+  const blockRoot = header.state.partial.noteHashTree.root;
+  if (BigInt(blockRoot) !== BigInt(noteHashTreeRoot)) {
+    return {
+      status: 'mismatch',
+      message: `The proof's note hash tree root ${noteHashTreeRoot} is not the one of block ${blockNumber} (${blockRoot})`,
+    };
+  }
+  return { status: 'matches', blockNumber, nodeUrl };
+};
@@ -0,0 +1,159 @@
+import { UltraHonkBackend } from "@aztec/bb.js";
+import { Noir, type CompiledCircuit, type InputMap } from "@aztec/noir-noir_js";
+import exactCircuit from "../../circuits/target/circuits.json" with { type: "json" };
+import thresholdCircuit from "../../threshold-circuit/target/threshold_circuit.json" with { type: "json" };
+import rangeCircuit from "../../range-circuit/target/range_circuit.json" with { type: "json" };
+
+/** What a proof reveals about the note's value: all of it, a lower bound, or a range. */
+export type ProofMode = 'exact' | 'threshold' | 'range';
+
+/** The note and its path in the note hash tree, as `yarn data` writes them to data.json. */
+export interface NoteInputs {
+  settled_note_hash: string;
+  contract_address: string;
+  recipient: string;
+  randomness: string;
+  value: string;
+  storage_slot: string;
+  note_nonce: string;
+  note_hash_tree_root: string;
+  leaf_index: string;
+  /** JSON array of the sibling path fields, as in data.json */
+  sibling_path: string;
+  /** Block whose note hash tree root `note_hash_tree_root` is, put in the proof bundle for verifiers to check */
+  block_number: string;
+}
+
+/** Public bounds the value is proven against, each mode uses the ones it needs. */
+export interface StatementInputs {
+  threshold: string;
+  min: string;
+  max: string;
+}
+
+/** Public inputs of a proof by name, e.g. `{ contract, recipient, value }` */
+export type PublicInputFields = Record<string, string>;
+
+interface ProofModeDefinition {
+  label: string;
+  /** Name of the compiled circuit, `<id>.json` in its target directory */
+  circuitId: string;
+  circuit: CompiledCircuit;
+  /** Names of the circuit's public inputs, in the order of its `pub` parameters */
+  publicInputNames: string[];
+  toCircuitInputs: (note: NoteInputs, statement: StatementInputs) => InputMap;
+  /** Describes what a proof shows, from its public inputs. */
+  describe: (fields: PublicInputFields) => string;
+}
+
+const noteInputs = (note: NoteInputs) => ({
+  contract_address: note.contract_address,
+  recipient: note.recipient,
+  randomness: note.randomness,
+  value: note.value,
+  storage_slot: note.storage_slot,
+  note_nonce: note.note_nonce,
+  note_hash_tree_root: note.note_hash_tree_root,
+  leaf_index: note.leaf_index,
+  sibling_path: JSON.parse(note.sibling_path),
+});
+
+const toDecimal = (field: string) => BigInt(field).toString();
+
+const noteOf = ({ contract, recipient }: PublicInputFields) => `The note of ${recipient} in contract ${contract}`;
+
+const inTree = ({ noteHashTreeRoot }: PublicInputFields) =>
+  `, and is in the note hash tree with root ${noteHashTreeRoot}`;
+
+export const PROOF_MODES: Record<ProofMode, ProofModeDefinition> = {
+  exact: {
+    label: 'Exact value (public)',
+    circuitId: 'circuits',
+    circuit: exactCircuit as CompiledCircuit,
+    publicInputNames: ['settledNoteHash', 'contract', 'recipient', 'value', 'noteHashTreeRoot'],
+    toCircuitInputs: (note) => ({ ...noteInputs(note), settled_note_hash: note.settled_note_hash }),
+    describe: (fields) => `${noteOf(fields)} holds exactly ${toDecimal(fields.value)}${inTree(fields)}`,
+  },
+  threshold: {
+    label: 'At least a threshold',
+    circuitId: 'threshold_circuit',
+    circuit: thresholdCircuit as CompiledCircuit,
+    publicInputNames: ['contract', 'recipient', 'threshold', 'noteHashTreeRoot'],
+    toCircuitInputs: (note, { threshold }) => ({ ...noteInputs(note), threshold }),
+    describe: (fields) => `${noteOf(fields)} holds at least ${toDecimal(fields.threshold)}${inTree(fields)}`,
+  },
+  range: {
+    label: 'In a range',
+    circuitId: 'range_circuit',
+    circuit: rangeCircuit as CompiledCircuit,
+    publicInputNames: ['contract', 'recipient', 'min', 'max', 'noteHashTreeRoot'],
+    toCircuitInputs: (note, { min, max }) => ({ ...noteInputs(note), min, max }),
+    describe: (fields) =>
+      `${noteOf(fields)} holds between ${toDecimal(fields.min)} and ${toDecimal(fields.max)}${inTree(fields)}`,
+  },
+};
+
+/** Names the public inputs of a proof of `mode`. */
+export const namePublicInputs = (mode: ProofMode, publicInputs: string[]): PublicInputFields =>
+  Object.fromEntries(PROOF_MODES[mode].publicInputNames.map((name, i) => [name, publicInputs[i]]));
+
+/** Describes the statement a proof of `mode` with these public inputs shows. */
+export const describeStatement = (mode: ProofMode, publicInputs: string[]) =>
+  PROOF_MODES[mode].describe(namePublicInputs(mode, publicInputs));
+
+export interface NoteProof {
+  mode: ProofMode;
+  proof: Uint8Array;
+  publicInputs: string[];
+  verified: boolean;
+  witness: Uint8Array;
+  statement: string;
+}
+
+/** Proves the statement of `mode` about `note`. Throws if it doesn't hold, e.g. the value is below the threshold. */
+export const generateNoteProof = async (
+  mode: ProofMode,
+  note: NoteInputs,
+  statement: StatementInputs,
+): Promise<NoteProof> => {
+  console.log(`Generating ${mode} proof...`);
+  const { circuit, toCircuitInputs } = PROOF_MODES[mode];
+
+  const noir = new Noir(circuit);
+  const honk = new UltraHonkBackend(circuit.bytecode);
+
+  const { witness } = await noir.execute(toCircuitInputs(note, statement));
+  const { proof, publicInputs } = await honk.generateProof(witness);
+  const verified = await honk.verifyProof({ proof, publicInputs });
+
+  return { mode, proof, publicInputs, verified, witness, statement: describeStatement(mode, publicInputs) };
+};
+
+export interface NoteProofVerification {
+  verified: boolean;
+  /** Mode whose circuit the proof verified against, if any */
+  mode?: ProofMode;
+  statement?: string;
+}
+
+/**
+ * Verifies a proof against the circuit of each of `modes` in turn, since only the one it was made with accepts it. That
+ * circuit tells which statement was proven.
+ */
+export const verifyNoteProof = async (
+  proof: Uint8Array,
+  publicInputs: string[],
+  modes = Object.keys(PROOF_MODES) as ProofMode[],
+): Promise<NoteProofVerification> => {
+  console.log('Verifying proof...');
+
+  for (const mode of modes) {
+    const honk = new UltraHonkBackend(PROOF_MODES[mode].circuit.bytecode);
+    // A proof of another circuit may fail to even deserialize against this one
+    const verified = await honk.verifyProof({ proof, publicInputs }).catch(() => false);
+    if (verified) {
+      return { verified, mode, statement: describeStatement(mode, publicInputs) };
+    }
+  }
+  return { verified: false };
+};
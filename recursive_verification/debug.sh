@@ -1,6 +1,6 @@
 #!/bin/bash
 
-rm -rf contract/artifacts contract/codegenCache.json ~/.bb/00000000.00000000.00000000/vk_cache ivc
+rm -rf contract/artifacts contract/codegenCache.json ~/.bb/00000000.00000000.00000000/vk_cache ivc .proof-cache
 bun install
 bash -i <(curl -s https://install.aztec.network) 
 aztec-up 3.0.0-devnet.4
@@ -0,0 +1,39 @@
+import type { Fr } from "@aztec/aztec.js/fields";
+import type { RecursiveProofArtifacts } from "./recursive_proof_artifacts";
+
+/** Number of proofs `increment_batch` takes, must match BATCH_SIZE in contract/src/main.nr. */
+export const BATCH_SIZE = 2;
+
+/** Arguments of `ValueNotEqual.increment_batch` after the owner. */
+export interface BatchIncrementArgs {
+  verificationKey: Fr[];
+  proofs: Fr[][];
+  publicInputs: Fr[][];
+}
+
+/**
+ * Builds the `increment_batch` arguments from BATCH_SIZE `data.json`-style artifacts. The batch is verified against
+ * the single VK hash stored in the contract, so all artifacts must come from the same circuit.
+ */
+export function buildBatchIncrementArgs(artifacts: RecursiveProofArtifacts[]): BatchIncrementArgs {
+  if (artifacts.length !== BATCH_SIZE) {
+    throw new Error(`increment_batch takes exactly ${BATCH_SIZE} proofs, got ${artifacts.length}`);
+  }
+
+  const [first] = artifacts;
+  artifacts.forEach((artifact, i) => {
+    const sameVk =
+      artifact.vkHash.equals(first.vkHash) &&
+      artifact.vkAsFields.length === first.vkAsFields.length &&
+      artifact.vkAsFields.every((field, j) => field.equals(first.vkAsFields[j]));
+    if (!sameVk) {
+      throw new Error(`Proof ${i} of the batch was made with a different verification key than proof 0`);
+    }
+  });
+
+  return {
+    verificationKey: first.vkAsFields,
+    proofs: artifacts.map((artifact) => artifact.proofAsFields),
+    publicInputs: artifacts.map((artifact) => artifact.publicInputs),
+  };
+}
@@ -0,0 +1,88 @@
+import { ValueNotEqualContract } from "../contract/artifacts/ValueNotEqual";
+import { BATCH_SIZE, buildBatchIncrementArgs } from "./batch_args";
+import { generateHelloCircuitProof } from "./hello_circuit";
+import { captureProfile } from "./profile";
+import type { RecursiveProofArtifacts } from "./recursive_proof_artifacts";
+import { HELLO_CIRCUIT_ID } from "./vk_registry";
+import { deployAccount, getSponsoredPaymentMethod, setupWallet } from "./wallet";
+
+// Compares verifying one proof per tx with verifying BATCH_SIZE proofs in one `increment_batch` call. Both are
+// profiled with proving enabled, so this takes a while.
+
+type Profile = Awaited<ReturnType<typeof captureProfile>>;
+
+function summarize(label: string, profile: Profile, proofs: number) {
+  const gates = profile.executionSteps.reduce((total, step) => total + (step.gateCount ?? 0), 0);
+  const provingMs = profile.timings.proving ?? 0;
+  return {
+    label,
+    proofs,
+    gates,
+    "gates / proof": Math.round(gates / proofs),
+    "proving (ms)": Math.round(provingMs),
+    "proving / proof (ms)": Math.round(provingMs / proofs),
+  };
+}
+
+async function main() {
+  const wallet = await setupWallet();
+  const sponsoredPaymentMethod = await getSponsoredPaymentMethod();
+  const owner = await deployAccount(wallet);
+  const opts = { from: owner, fee: { paymentMethod: sponsoredPaymentMethod } };
+
+  // Every proof can only be redeemed once, so the single call and the batch each get their own
+  const data = await generateHelloCircuitProof(owner);
+  const artifacts: RecursiveProofArtifacts[] = [];
+  for (let i = 0; i < BATCH_SIZE; i++) {
+    artifacts.push(await generateHelloCircuitProof(owner, { y: 3 + i }));
+  }
+
+  const valueNotEqual = await ValueNotEqualContract.deploy(
+    wallet,
+    0,
+    owner,
+    owner,
+    HELLO_CIRCUIT_ID,
+    data.vkHash,
+  )
+    .send(opts)
+    .deployed();
+
+  console.log("Profiling a single proof...");
+  const single = await captureProfile(
+    valueNotEqual.methods.increment(
+      owner,
+      data.vkHash,
+      data.vkAsFields,
+      data.proofAsFields,
+      data.publicInputs,
+    ),
+    opts,
+    "benchmark-single",
+    { skipProofGeneration: false },
+  );
+
+  console.log(`Profiling a batch of ${BATCH_SIZE} proofs...`);
+  const { verificationKey, proofs, publicInputs } = buildBatchIncrementArgs(artifacts);
+  const batch = await captureProfile(
+    valueNotEqual.methods.increment_batch(
+      owner,
+      data.vkHash,
+      verificationKey,
+      proofs,
+      publicInputs,
+    ),
+    opts,
+    "benchmark-batch",
+    { skipProofGeneration: false },
+  );
+
+  console.table([summarize("increment", single, 1), summarize("increment_batch", batch, BATCH_SIZE)]);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
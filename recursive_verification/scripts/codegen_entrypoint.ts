@@ -0,0 +1,79 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { basename, dirname, relative } from "node:path";
+import { parseArgs } from "node:util";
+import { exit } from "process";
+import { countPublicInputs, selectIncrementEntrypoint } from "./entrypoints";
+import { loadCompiledCircuit } from "./recursive_proof_artifacts";
+
+const USAGE = `Usage: yarn codegen-entrypoint --circuit <path> [options]
+
+Generates a TypeScript module that verifies proofs of a circuit with the ValueNotEqual entrypoint matching its number
+of public inputs, read from the circuit's ABI.
+
+Options:
+  --circuit <path>  Compiled circuit, e.g. circuit/target/hello_circuit.json
+  --output <path>   Module to write (default: scripts/generated/<circuit>_entrypoint.ts)
+  -h, --help        Show this message
+`;
+
+const { values } = parseArgs({
+  options: {
+    circuit: { type: "string" },
+    output: { type: "string" },
+    help: { type: "boolean", short: "h" },
+  },
+});
+
+if (values.help) {
+  console.log(USAGE);
+  exit(0);
+}
+if (!values.circuit) {
+  console.error(`--circuit is required\n\n${USAGE}`);
+  exit(1);
+}
+
+// Imports in the generated module are relative to where it is written
+function importPath(from: string, to: string): string {
+  const path = relative(dirname(from), to);
+  return path.startsWith(".") ? path : `./${path}`;
+}
+
+try {
+  const circuitPath = values.circuit;
+  const circuit = await loadCompiledCircuit(circuitPath);
+  const publicInputs = countPublicInputs(circuit.abi);
+  const entrypoint = selectIncrementEntrypoint(circuit);
+  const output = values.output ?? `scripts/generated/${basename(circuitPath, ".json")}_entrypoint.ts`;
+
+  const source = `// Generated by \`yarn codegen-entrypoint --circuit ${circuitPath}\`, do not edit. Regenerate it when the circuit's
+// public inputs change.
+import type { ValueNotEqualContract } from "${importPath(output, "contract/artifacts/ValueNotEqual")}";
+import { type RecursiveProofArtifacts, validateProofArtifacts } from "${importPath(output, "scripts/recursive_proof_artifacts")}";
+
+export const PUBLIC_INPUTS = ${publicInputs};
+
+export const ENTRYPOINT = "${entrypoint}";
+
+/** Verifies \`artifacts\`, a proof of ${basename(circuitPath)}, and increments the counter of the tx's sender. */
+export function increment(contract: ValueNotEqualContract, artifacts: RecursiveProofArtifacts) {
+  const { vkHash, vkAsFields, proofAsFields, publicInputs } = validateProofArtifacts(artifacts, "${basename(circuitPath)} proof", {
+    publicInputs: PUBLIC_INPUTS,
+  });
+  return contract.methods.${entrypoint}(
+    vkHash,
+    vkAsFields,
+    proofAsFields,
+    publicInputs,
+  );
+}
+`;
+
+  await mkdir(dirname(output), { recursive: true });
+  await writeFile(output, source);
+  console.log(`${circuitPath} has ${publicInputs} public input(s), wrote ${output} calling ${entrypoint}`);
+  exit();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  exit(1);
+}
@@ -0,0 +1,71 @@
+import { parseArgs } from "node:util";
+import { exit } from "process";
+import { compareProfileReports, readProfileReports } from "./profile_report";
+
+const USAGE = `Usage: yarn compare-profiles <baseline dir> <current dir> [options]
+
+Compares the profile reports captureProfile wrote into two CAPTURE_IVC_FOLDERs, e.g. before and after upgrading
+Noir or bb, and exits with 1 if any metric regressed.
+
+Options:
+  --threshold <percent>  How much a metric may grow before it counts as a regression (default: 5)
+  --gates-only           Ignore timings, which vary from run to run, and only compare gate counts
+  -h, --help             Show this message
+`;
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    threshold: { type: "string", default: "5" },
+    "gates-only": { type: "boolean", default: false },
+    help: { type: "boolean", short: "h" },
+  },
+});
+
+if (values.help) {
+  console.log(USAGE);
+  exit(0);
+}
+
+const threshold = Number(values.threshold);
+if (positionals.length !== 2 || !Number.isFinite(threshold) || threshold < 0) {
+  console.error(USAGE);
+  exit(1);
+}
+
+try {
+  const [baselineDir, currentDir] = positionals;
+  const diffs = compareProfileReports(
+    await readProfileReports(baselineDir),
+    await readProfileReports(currentDir),
+    threshold,
+  ).filter((diff) => !values["gates-only"] || diff.metric === "gates");
+
+  if (diffs.length === 0) {
+    console.error(`No reports with the same label in ${baselineDir} and ${currentDir}`);
+    exit(1);
+  }
+
+  console.table(
+    diffs.map(({ label, functionName, metric, baseline, current, changePercent, regression }) => ({
+      label,
+      function: functionName,
+      metric,
+      baseline,
+      current,
+      "change (%)": Number.isFinite(changePercent) ? Number(changePercent.toFixed(1)) : changePercent,
+      regression: regression ? "REGRESSION" : "",
+    })),
+  );
+
+  const regressions = diffs.filter((diff) => diff.regression);
+  if (regressions.length > 0) {
+    console.error(`${regressions.length} metric(s) grew by more than ${threshold}%`);
+    exit(1);
+  }
+  console.log(`No metric grew by more than ${threshold}%`);
+  exit();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  exit(1);
+}
@@ -0,0 +1,74 @@
+import type { ValueNotEqualContract } from "../contract/artifacts/ValueNotEqual";
+import type { CompiledCircuit, RecursiveProofArtifacts } from "./recursive_proof_artifacts";
+
+type CircuitAbi = CompiledCircuit["abi"];
+type CircuitAbiType = CircuitAbi["parameters"][number]["type"];
+
+/** Most public inputs a circuit can have, the contract has an `increment_with_<N>_public_inputs` for 0 to this. */
+export const MAX_PUBLIC_INPUTS = 16;
+
+/** Number of fields `type` takes up once flattened into public inputs. */
+export function abiTypeSize(type: CircuitAbiType): number {
+  switch (type.kind) {
+    case "field":
+    case "boolean":
+    case "integer":
+      return 1;
+    case "string":
+      return type.length;
+    case "array":
+      return type.length * abiTypeSize(type.type);
+    case "tuple":
+      return type.fields.reduce((total, field) => total + abiTypeSize(field), 0);
+    case "struct":
+      return type.fields.reduce((total, field) => total + abiTypeSize(field.type), 0);
+    default:
+      throw new Error(`Unsupported ABI type ${JSON.stringify(type)}`);
+  }
+}
+
+/** Counts a circuit's public inputs: its `pub` parameters followed by its return value, which is public too. */
+export function countPublicInputs(abi: CircuitAbi): number {
+  const parameters = abi.parameters
+    .filter((parameter) => parameter.visibility === "public")
+    .reduce((total, parameter) => total + abiTypeSize(parameter.type), 0);
+  return parameters + (abi.return_type ? abiTypeSize(abi.return_type.abi_type) : 0);
+}
+
+export type IncrementEntrypoint = `increment_with_${number}_public_inputs`;
+
+/** Name of the contract function verifying proofs of `circuit`, picked by its number of public inputs. */
+export function selectIncrementEntrypoint(circuit: CompiledCircuit): IncrementEntrypoint {
+  const publicInputs = countPublicInputs(circuit.abi);
+  if (publicInputs > MAX_PUBLIC_INPUTS) {
+    throw new Error(
+      `The circuit has ${publicInputs} public inputs, but the contract verifies proofs with at most ${MAX_PUBLIC_INPUTS}`,
+    );
+  }
+  return `increment_with_${publicInputs}_public_inputs`;
+}
+
+/**
+ * Calls the `increment_with_<N>_public_inputs` entrypoint matching `circuit` with `artifacts`, a proof of it. The
+ * counter of the account sending the tx is incremented.
+ */
+export function incrementWithProof(
+  contract: ValueNotEqualContract,
+  circuit: CompiledCircuit,
+  artifacts: RecursiveProofArtifacts,
+) {
+  const entrypoint = selectIncrementEntrypoint(circuit);
+  if (artifacts.publicInputs.length !== countPublicInputs(circuit.abi)) {
+    throw new Error(
+      `The proof has ${artifacts.publicInputs.length} public inputs, but the circuit has ` +
+        `${countPublicInputs(circuit.abi)}. Was it made for another circuit?`,
+    );
+  }
+  // All the entrypoints have the same TypeScript signature, only the length of `public_inputs` differs
+  return contract.methods[entrypoint as "increment_with_0_public_inputs"](
+    artifacts.vkHash,
+    artifacts.vkAsFields,
+    artifacts.proofAsFields,
+    artifacts.publicInputs,
+  );
+}
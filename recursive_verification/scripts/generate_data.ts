@@ -1,59 +1,115 @@
-import { Noir } from '@aztec/noir-noir_js';
-import circuitJson from '../circuit/target/hello_circuit.json' with { type: "json" }
-import { Barretenberg, UltraHonkBackend, deflattenFields } from '@aztec/bb.js';
-import fs from 'fs'
-import { exit } from 'process';
-
-// Initialize Barretenberg API first
-const barretenbergAPI = await Barretenberg.new({ threads: 1 });
-
-const helloWorld = new Noir(circuitJson as any)
-
-// Execute the circuit to get the witness
-const { witness: mainWitness } = await helloWorld.execute({ x: 1, y: 2 })
-
-// Initialize backend - pass Barretenberg instance as second argument
-const mainBackend = new UltraHonkBackend(circuitJson.bytecode, barretenbergAPI)
-
-// Generate the proof with recursive verifier target
-const mainProofData = await mainBackend.generateProof(mainWitness, {
-  verifierTarget: 'noir-recursive'
-})
-
-// Verify the proof
-const isValid = await mainBackend.verifyProof(mainProofData, {
-  verifierTarget: 'noir-recursive'
-})
-console.log(`Proof verification: ${isValid ? 'SUCCESS' : 'FAILED'}`)
-
-// Generate recursive proof artifacts (proof as fields, vk as fields, vk hash)
-const recursiveArtifacts = await mainBackend.generateRecursiveProofArtifacts(
-  mainProofData.proof,
-  mainProofData.publicInputs.length
-)
-
-// If proofAsFields is empty, use deflattenFields to convert proof bytes to fields
-let proofAsFields = recursiveArtifacts.proofAsFields;
-if (proofAsFields.length === 0) {
-  console.log('Using deflattenFields to convert proof...');
-  proofAsFields = deflattenFields(mainProofData.proof).map(f => f.toString());
-}
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import { parseArgs } from "node:util";
+import { exit } from "process";
+import { HELLO_CIRCUIT_PATH, bindToOwner } from "./hello_circuit";
+import { DEFAULT_PROOF_CACHE_DIR, clearProofCache } from "./proof_cache";
+import {
+  type CircuitInputs,
+  type CompiledCircuit,
+  generateRecursiveProofArtifacts,
+  loadCompiledCircuit,
+  readCircuitInputs,
+} from "./recursive_proof_artifacts";
+
+const USAGE = `Usage: yarn data [options]
+
+Proves a circuit for recursive verification and writes the proof, VK and public inputs as fields. Circuits with any
+number of public inputs can be proven, see \`yarn codegen-entrypoint\` to verify them.
+
+Options:
+  --owner <address>  Account the proof can be redeemed for, if the circuit takes an owner and a nonce like
+                     hello_circuit (default: the inputs' owner, or the zero address)
+  --nonce <field>    Nonce that makes the proof redeemable once (default: the inputs' nonce, or random)
+  --circuit <path>   Compiled circuit (default: ${HELLO_CIRCUIT_PATH})
+  --inputs <path>    Circuit inputs as .toml (e.g. circuit/Prover.toml) or .json (default: x = 1, y = 2)
+  --threads <n>      Threads Barretenberg proves with (default: 1)
+  --output <path>    Where to write the artifacts (default: data.json)
+  --cache-dir <path> Reuse proofs already made for the same circuit and inputs from here (default: ${DEFAULT_PROOF_CACHE_DIR})
+  --no-cache         Always prove, without reading or writing the cache
+  --clear-cache      Delete every cached proof before proving
+  -h, --help         Show this message
+`;
+
+const DEFAULT_INPUTS: CircuitInputs = { x: 1, y: 2 };
+const DEFAULT_OUTPUT = "data.json";
 
-const vkAsFields = recursiveArtifacts.vkAsFields;
+const { values } = parseArgs({
+  options: {
+    owner: { type: "string" },
+    nonce: { type: "string" },
+    circuit: { type: "string", default: HELLO_CIRCUIT_PATH },
+    inputs: { type: "string" },
+    threads: { type: "string", default: "1" },
+    output: { type: "string", default: DEFAULT_OUTPUT },
+    "cache-dir": { type: "string", default: DEFAULT_PROOF_CACHE_DIR },
+    "no-cache": { type: "boolean" },
+    "clear-cache": { type: "boolean" },
+    help: { type: "boolean", short: "h" },
+  },
+});
 
-console.log(`VK size: ${vkAsFields.length}`);
-console.log(`Proof size: ${proofAsFields.length}`);
-console.log(`Public inputs: ${mainProofData.publicInputs.length}`);
+if (values.help) {
+  console.log(USAGE);
+  exit(0);
+}
 
-// Write proof artifacts to file
-const data = {
-  vkAsFields: vkAsFields,
-  vkHash: recursiveArtifacts.vkHash,
-  proofAsFields: proofAsFields,
-  publicInputs: mainProofData.publicInputs.map((p: string) => p.toString()),
-};
+const threads = Number(values.threads);
+if (!Number.isInteger(threads) || threads < 1) {
+  console.error(`--threads must be a positive integer, got "${values.threads}"\n\n${USAGE}`);
+  exit(1);
+}
 
-fs.writeFileSync('data.json', JSON.stringify(data, null, 2))
-await barretenbergAPI.destroy()
-console.log("Done")
-exit()
+/**
+ * Binds the inputs to --owner and --nonce, keeping the ones set in the inputs file when the flags are omitted. Circuits
+ * without `owner` and `nonce` parameters are proven with the inputs as they are. `randomNonce` is set when neither gave
+ * a nonce.
+ */
+function withOwnerBinding(
+  circuit: CompiledCircuit,
+  inputs: CircuitInputs,
+): { inputs: CircuitInputs; randomNonce: boolean } {
+  const parameters = circuit.abi.parameters.map((parameter) => parameter.name);
+  if (!parameters.includes("owner") || !parameters.includes("nonce")) {
+    if (values.owner || values.nonce) {
+      throw new Error(`${values.circuit} takes no owner and nonce, --owner and --nonce can't be used with it`);
+    }
+    return { inputs, randomNonce: false };
+  }
+  const owner = values.owner ?? (inputs.owner as string | undefined);
+  if (owner === undefined) {
+    console.log("No --owner given, binding the proof to the zero address. Its VK is valid, but no one can redeem it.");
+  }
+  const nonce = values.nonce ?? (inputs.nonce as string | undefined);
+  return {
+    inputs: bindToOwner(
+      inputs,
+      owner === undefined ? AztecAddress.ZERO : AztecAddress.fromString(owner),
+      nonce === undefined ? undefined : new Fr(BigInt(nonce)),
+    ),
+    randomNonce: nonce === undefined,
+  };
+}
+
+try {
+  if (values["clear-cache"]) {
+    await clearProofCache(values["cache-dir"]);
+    console.log(`Cleared ${values["cache-dir"]}`);
+  }
+  const inputs = values.inputs ? await readCircuitInputs(values.inputs) : DEFAULT_INPUTS;
+  const circuit = await loadCompiledCircuit(values.circuit);
+  const { inputs: boundInputs, randomNonce } = withOwnerBinding(circuit, inputs);
+  if (randomNonce) {
+    console.log("No --nonce given, proving with a random one. Its proof is never proven again, so it isn't cached.");
+  }
+  await generateRecursiveProofArtifacts(values.circuit, boundInputs, {
+    threads,
+    outputPath: values.output,
+    cacheDir: values["no-cache"] || randomNonce ? false : values["cache-dir"],
+  });
+  console.log("Done");
+  exit();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  exit(1);
+}
@@ -0,0 +1,56 @@
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import {
+  type CircuitInputs,
+  type GenerateRecursiveProofOptions,
+  type RecursiveProofArtifacts,
+  generateRecursiveProofArtifacts,
+  validateProofArtifacts,
+} from "./recursive_proof_artifacts";
+
+/** Compiled `circuit/`, as written by `nargo compile`. */
+export const HELLO_CIRCUIT_PATH = "circuit/target/hello_circuit.json";
+
+/**
+ * Adds the owner and nonce public inputs to `inputs`. The contract only credits a proof to the owner it was made for,
+ * and only once per nonce.
+ */
+export function bindToOwner(inputs: CircuitInputs, owner: AztecAddress, nonce: Fr = Fr.random()): CircuitInputs {
+  return { ...inputs, owner: owner.toString(), nonce: nonce.toString() };
+}
+
+export interface HelloCircuitInputs {
+  x?: number | bigint;
+  y?: number | bigint;
+  /** Random by default, so every proof can be redeemed once. Proofs with a random nonce aren't cached. */
+  nonce?: Fr;
+}
+
+/**
+ * Proves x != y (1 and 2 by default) for `owner`, ready to be passed to `increment`. Throws if the compiled circuit
+ * doesn't produce the public inputs the contract takes, e.g. when only one of them was updated.
+ */
+export async function generateHelloCircuitProof(
+  owner: AztecAddress,
+  { x = 1, y = 2, nonce }: HelloCircuitInputs = {},
+  opts?: GenerateRecursiveProofOptions,
+): Promise<RecursiveProofArtifacts> {
+  // A random nonce is never proven again, caching its proof would only grow the cache with every run
+  const artifacts = await generateRecursiveProofArtifacts(
+    HELLO_CIRCUIT_PATH,
+    bindToOwner({ x: x.toString(), y: y.toString() }, owner, nonce),
+    nonce === undefined ? { ...opts, cacheDir: false } : opts,
+  );
+  return validateProofArtifacts(artifacts, HELLO_CIRCUIT_PATH);
+}
+
+/**
+ * VK of the circuit, for deploying the contract or registering it. It's taken from a proof for the zero address with
+ * nonce 0, whose inputs never change, so after the first run it comes from the proof cache.
+ */
+export async function getHelloCircuitVk(
+  opts?: GenerateRecursiveProofOptions,
+): Promise<Pick<RecursiveProofArtifacts, "vkAsFields" | "vkHash">> {
+  const { vkAsFields, vkHash } = await generateHelloCircuitProof(AztecAddress.ZERO, { nonce: Fr.ZERO }, opts);
+  return { vkAsFields, vkHash };
+}
@@ -0,0 +1,45 @@
+import type {
+  ContractFunctionInteraction,
+  DeployMethod,
+  DeployOptions,
+  SendInteractionOptions,
+} from "@aztec/aztec.js/contracts";
+import { serializePrivateExecutionSteps } from "@aztec/stdlib/kernel";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { buildProfileReport, formatProfileReport, writeProfileReport } from "./profile_report";
+
+export interface CaptureProfileOptions {
+  /** Only run witness generation and count gates, without proving. Defaults to true. */
+  skipProofGeneration?: boolean;
+}
+
+/**
+ * Profiles `interaction` and writes its IVC inputs to `$CAPTURE_IVC_FOLDER/<label>` (default `ivc/<label>`), so they
+ * can be fed to bb, along with a report of the gate count and witness generation time of every private function
+ * executed (`report.json`, and as a table in `report.txt`). Returns the profile.
+ */
+export async function captureProfile(
+  interaction: ContractFunctionInteraction | DeployMethod,
+  opts: SendInteractionOptions | DeployOptions,
+  label: string,
+  { skipProofGeneration = true }: CaptureProfileOptions = {},
+) {
+  const result = await interaction.profile({
+    ...opts,
+    profileMode: "full",
+    skipProofGeneration,
+  });
+  const ivcFolder = process.env.CAPTURE_IVC_FOLDER ?? "ivc";
+  const resultsDirectory = join(ivcFolder, label);
+  await mkdir(resultsDirectory, { recursive: true });
+  const ivcInputsPath = join(resultsDirectory, "ivc-inputs.msgpack");
+  await writeFile(
+    ivcInputsPath,
+    serializePrivateExecutionSteps(result.executionSteps)
+  );
+  const report = await buildProfileReport(label, result);
+  await writeProfileReport(resultsDirectory, report);
+  console.log(formatProfileReport(report));
+  return result;
+}
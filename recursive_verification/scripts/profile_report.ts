@@ -0,0 +1,168 @@
+import type { ContractFunctionInteraction } from "@aztec/aztec.js/contracts";
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+type TxProfileResult = Awaited<ReturnType<ContractFunctionInteraction["profile"]>>;
+
+/** Cost of one private function in a profiled tx. */
+export interface ProfileReportStep {
+  functionName: string;
+  gateCount: number;
+  witgenMs: number;
+}
+
+/**
+ * Machine-readable summary of one profile, written to `report.json` next to the IVC inputs. The tx is proven as one
+ * IVC stack, so proving time is only known for the whole tx, not per step.
+ */
+export interface ProfileReport {
+  label: string;
+  createdAt: string;
+  /** Versions of the proving packages in package.json, to tell which toolchain a report was made with. */
+  versions: Record<string, string>;
+  steps: ProfileReportStep[];
+  totalGateCount: number;
+  totalWitgenMs: number;
+  /** Undefined when the profile skipped proof generation. */
+  provingMs?: number;
+}
+
+export const PROFILE_REPORT_FILE = "report.json";
+export const PROFILE_TABLE_FILE = "report.txt";
+
+const VERSIONED_PACKAGES = ["@aztec/aztec.js", "@aztec/bb.js", "@aztec/noir-noir_js"];
+
+async function readPackageVersions(): Promise<Record<string, string>> {
+  try {
+    const { dependencies = {} } = JSON.parse(await readFile("package.json", "utf8"));
+    return Object.fromEntries(
+      VERSIONED_PACKAGES.filter((name) => dependencies[name]).map((name) => [name, dependencies[name]]),
+    );
+  } catch {
+    return {};
+  }
+}
+
+export async function buildProfileReport(label: string, profile: TxProfileResult): Promise<ProfileReport> {
+  // A function can run more than once in a tx, e.g. the kernel, so repeats are numbered to keep names unique
+  const seen = new Map<string, number>();
+  const steps = profile.executionSteps.map((step) => {
+    const count = (seen.get(step.functionName) ?? 0) + 1;
+    seen.set(step.functionName, count);
+    return {
+      functionName: count === 1 ? step.functionName : `${step.functionName} #${count}`,
+      gateCount: step.gateCount ?? 0,
+      witgenMs: Math.round(step.timings.witgen),
+    };
+  });
+  return {
+    label,
+    createdAt: new Date().toISOString(),
+    versions: await readPackageVersions(),
+    steps,
+    totalGateCount: steps.reduce((total, step) => total + step.gateCount, 0),
+    totalWitgenMs: steps.reduce((total, step) => total + step.witgenMs, 0),
+    provingMs: profile.timings.proving === undefined ? undefined : Math.round(profile.timings.proving),
+  };
+}
+
+function formatTable(header: string[], rows: string[][]): string {
+  const widths = header.map((cell, i) => Math.max(cell.length, ...rows.map((row) => row[i].length)));
+  // Text columns are left aligned, numbers right aligned
+  const format = (row: string[]) =>
+    row.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join("  ");
+  return [format(header), widths.map((width) => "-".repeat(width)).join("  "), ...rows.map(format)].join("\n");
+}
+
+/** Renders `report` as a table of its steps, plus a total row. */
+export function formatProfileReport(report: ProfileReport): string {
+  const rows = report.steps.map((step) => [step.functionName, `${step.gateCount}`, `${step.witgenMs}`]);
+  rows.push(["total", `${report.totalGateCount}`, `${report.totalWitgenMs}`]);
+  const proving = report.provingMs === undefined ? "not measured" : `${report.provingMs} ms`;
+  return [
+    `${report.label}, proving: ${proving}`,
+    formatTable(["function", "gates", "witgen (ms)"], rows),
+  ].join("\n");
+}
+
+/** Writes `report` as `report.json` and `report.txt` into `directory`. */
+export async function writeProfileReport(directory: string, report: ProfileReport): Promise<void> {
+  await writeFile(join(directory, PROFILE_REPORT_FILE), JSON.stringify(report, null, 2));
+  await writeFile(join(directory, PROFILE_TABLE_FILE), `${formatProfileReport(report)}\n`);
+}
+
+/** Reads every `<label>/report.json` under `directory`, e.g. a `CAPTURE_IVC_FOLDER`, keyed by label. */
+export async function readProfileReports(directory: string): Promise<Map<string, ProfileReport>> {
+  const reports = new Map<string, ProfileReport>();
+  for (const entry of await readdir(directory, { withFileTypes: true })) {
+    if (!entry.isDirectory()) {
+      continue;
+    }
+    try {
+      const path = join(directory, entry.name, PROFILE_REPORT_FILE);
+      const report: ProfileReport = JSON.parse(await readFile(path, "utf8"));
+      reports.set(report.label, report);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+  return reports;
+}
+
+/** Change of one metric between two reports. */
+export interface ProfileDiff {
+  label: string;
+  /** Function name of the step, or "total" for the whole tx. */
+  functionName: string;
+  metric: "gates" | "witgen (ms)" | "proving (ms)";
+  baseline: number;
+  current: number;
+  /** Relative change in percent, Infinity if the baseline was 0. */
+  changePercent: number;
+  regression: boolean;
+}
+
+function diff(
+  label: string,
+  functionName: string,
+  metric: ProfileDiff["metric"],
+  baseline: number,
+  current: number,
+  thresholdPercent: number,
+): ProfileDiff {
+  const changePercent = baseline === 0 ? (current === 0 ? 0 : Infinity) : ((current - baseline) / baseline) * 100;
+  return { label, functionName, metric, baseline, current, changePercent, regression: changePercent > thresholdPercent };
+}
+
+/**
+ * Compares every step and total of the reports both directories have a label for. A metric regresses when it grew by
+ * more than `thresholdPercent`. Steps are matched by function name, those only in one of the reports are skipped.
+ */
+export function compareProfileReports(
+  baseline: Map<string, ProfileReport>,
+  current: Map<string, ProfileReport>,
+  thresholdPercent: number,
+): ProfileDiff[] {
+  const diffs: ProfileDiff[] = [];
+  for (const [label, before] of baseline) {
+    const after = current.get(label);
+    if (!after) {
+      continue;
+    }
+    for (const step of after.steps) {
+      const previous = before.steps.find((candidate) => candidate.functionName === step.functionName);
+      if (previous) {
+        diffs.push(diff(label, step.functionName, "gates", previous.gateCount, step.gateCount, thresholdPercent));
+        diffs.push(diff(label, step.functionName, "witgen (ms)", previous.witgenMs, step.witgenMs, thresholdPercent));
+      }
+    }
+    diffs.push(diff(label, "total", "gates", before.totalGateCount, after.totalGateCount, thresholdPercent));
+    diffs.push(diff(label, "total", "witgen (ms)", before.totalWitgenMs, after.totalWitgenMs, thresholdPercent));
+    if (before.provingMs !== undefined && after.provingMs !== undefined) {
+      diffs.push(diff(label, "total", "proving (ms)", before.provingMs, after.provingMs, thresholdPercent));
+    }
+  }
+  return diffs;
+}
@@ -0,0 +1,148 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+import type { CircuitInputs, CompiledCircuit, RecursiveProofArtifactsJson } from "./recursive_proof_artifacts";
+import { validateProofArtifacts } from "./recursive_proof_artifacts";
+
+// Content-addressed store of recursive proof artifacts. Entries live in `<dir>/<circuit>/<bytecode hash>/<key>.json`,
+// where the key hashes the inputs, verifier target and bb.js version, so an entry is only ever read back for the exact
+// circuit and inputs it was proven for, by the same prover.
+
+/** Where proofs are cached unless a directory is passed explicitly, overridable with PROOF_CACHE_DIR. */
+export const DEFAULT_PROOF_CACHE_DIR = process.env.PROOF_CACHE_DIR ?? ".proof-cache";
+
+/** Identifies one cached proof. */
+export interface ProofCacheEntry {
+  /** Name the circuit's entries are grouped under, usually its file name. */
+  circuitName: string;
+  circuit: CompiledCircuit;
+  inputs: CircuitInputs;
+  verifierTarget: string;
+  /** Version of bb.js that proves the entry, see `installedBbJsVersion`. */
+  bbVersion: string;
+}
+
+/**
+ * Version of the installed bb.js. Another version may encode proofs and VKs differently, so the proofs it made are
+ * never read back by this one.
+ */
+export async function installedBbJsVersion(): Promise<string> {
+  // bb.js doesn't export its package.json, so it is looked up from the entry point
+  let dir = dirname(createRequire(import.meta.url).resolve("@aztec/bb.js"));
+  while (dir !== dirname(dir)) {
+    try {
+      const { name, version } = JSON.parse(await readFile(join(dir, "package.json"), "utf8"));
+      if (name === "@aztec/bb.js") {
+        return version;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+    dir = dirname(dir);
+  }
+  throw new Error("Cannot find the package.json of @aztec/bb.js");
+}
+
+/** Hex SHA-256 of the circuit's ACIR bytecode. Recompiling a changed circuit changes it. */
+export function bytecodeHash(circuit: CompiledCircuit): string {
+  return createHash("sha256").update(circuit.bytecode).digest("hex");
+}
+
+// Inputs are hashed as JSON with sorted keys and stringified leaves, so `{ x: 1, y: 2 }` and `{ y: "2", x: "1" }`
+// share an entry
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return String(value);
+}
+
+export function proofCacheKey(inputs: CircuitInputs, verifierTarget: string, bbVersion: string): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ inputs: canonicalize(inputs), verifierTarget, bbVersion }))
+    .digest("hex");
+}
+
+function entryDir(cacheDir: string, { circuitName, circuit }: ProofCacheEntry): string {
+  return join(cacheDir, circuitName, bytecodeHash(circuit));
+}
+
+function entryPath(cacheDir: string, entry: ProofCacheEntry): string {
+  return join(entryDir(cacheDir, entry), `${proofCacheKey(entry.inputs, entry.verifierTarget, entry.bbVersion)}.json`);
+}
+
+/**
+ * Returns the cached artifacts for `entry`, or undefined if it hasn't been proven yet. An entry that doesn't parse or
+ * validate, e.g. one truncated by an interrupted write, is a miss too, so it is reproven and overwritten.
+ */
+export async function readCachedProof(
+  cacheDir: string,
+  entry: ProofCacheEntry,
+): Promise<RecursiveProofArtifactsJson | undefined> {
+  const path = entryPath(cacheDir, entry);
+  let contents: string;
+  try {
+    contents = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+  try {
+    const artifacts = JSON.parse(contents);
+    // The cache holds proofs of any circuit, not only the contract's, so the public inputs aren't counted
+    validateProofArtifacts(artifacts, path, { publicInputs: "any" });
+    return artifacts;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function writeCachedProof(
+  cacheDir: string,
+  entry: ProofCacheEntry,
+  artifacts: RecursiveProofArtifactsJson,
+): Promise<void> {
+  await mkdir(entryDir(cacheDir, entry), { recursive: true });
+  await writeFile(entryPath(cacheDir, entry), JSON.stringify(artifacts, null, 2));
+}
+
+/**
+ * Deletes the entries of `circuitName` proven with any bytecode other than `circuit`'s, i.e. from before the circuit
+ * was last changed. Returns the number of stale bytecode versions removed.
+ */
+export async function invalidateStaleProofs(
+  cacheDir: string,
+  circuitName: string,
+  circuit: CompiledCircuit,
+): Promise<number> {
+  const current = bytecodeHash(circuit);
+  let versions: string[];
+  try {
+    versions = await readdir(join(cacheDir, circuitName));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return 0;
+    }
+    throw error;
+  }
+  const stale = versions.filter((version) => version !== current);
+  await Promise.all(stale.map((version) => rm(join(cacheDir, circuitName, version), { recursive: true, force: true })));
+  return stale.length;
+}
+
+/** Deletes every cached proof. */
+export async function clearProofCache(cacheDir: string = DEFAULT_PROOF_CACHE_DIR): Promise<void> {
+  await rm(cacheDir, { recursive: true, force: true });
+}
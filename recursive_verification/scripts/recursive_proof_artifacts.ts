@@ -0,0 +1,227 @@
+import type { Noir } from "@aztec/noir-noir_js";
+import type { UltraHonkBackend } from "@aztec/bb.js";
+import { Fr } from "@aztec/aztec.js/fields";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { basename, dirname, extname } from "node:path";
+import { parse as parseToml } from "smol-toml";
+import {
+  DEFAULT_PROOF_CACHE_DIR,
+  type ProofCacheEntry,
+  installedBbJsVersion,
+  invalidateStaleProofs,
+  readCachedProof,
+  writeCachedProof,
+} from "./proof_cache";
+import { type ProveRecursivelyOptions, proveRecursively } from "./recursive_prover";
+
+/** Inputs a circuit is executed with, keyed by parameter name as in Nargo's Prover.toml. */
+export type CircuitInputs = Parameters<Noir["execute"]>[0];
+
+/** Compiled Noir circuit, as written to `target/<name>.json` by `nargo compile`. */
+export type CompiledCircuit = ConstructorParameters<typeof Noir>[0];
+
+/** What the ValueNotEqual contract needs to verify a proof, as fields ready to be passed to its methods. */
+export interface RecursiveProofArtifacts {
+  vkAsFields: Fr[];
+  vkHash: Fr;
+  proofAsFields: Fr[];
+  publicInputs: Fr[];
+}
+
+/** The same as written to JSON, the format of `data.json` and of the proof cache. */
+export interface RecursiveProofArtifactsJson {
+  vkAsFields: string[];
+  vkHash: string;
+  proofAsFields: string[];
+  publicInputs: string[];
+}
+
+/** Fields in a verification key, the length of `UltraHonkVerificationKey` in the contract. */
+export const HONK_VK_SIZE = 115;
+
+/** Fields in a proof, the length of `UltraHonkZKProof` in the contract. */
+export const HONK_PROOF_SIZE = 508;
+
+/** Public inputs `increment` takes, `PUBLIC_INPUTS` in the contract: y, the owner and the nonce. */
+export const CONTRACT_PUBLIC_INPUTS = 3;
+
+export interface ValidateProofArtifactsOptions {
+  /** Number of public inputs to expect, `"any"` to skip the check. Defaults to `CONTRACT_PUBLIC_INPUTS`. */
+  publicInputs?: number | "any";
+}
+
+const FIELD_PATTERN = /^(0x[0-9a-fA-F]{1,64}|[0-9]{1,78})$/;
+
+function assertField(value: unknown, name: string, source: string): asserts value is string | Fr {
+  if (value instanceof Fr) {
+    return;
+  }
+  if (typeof value !== "string" || !FIELD_PATTERN.test(value)) {
+    throw new Error(`${source}: ${name} is not a field element, got ${JSON.stringify(value)}`);
+  }
+  if (BigInt(value) >= Fr.MODULUS) {
+    throw new Error(`${source}: ${name} is not below the field modulus, got ${value}`);
+  }
+}
+
+function assertFields(value: unknown, name: string, length: number | "any", expected: string, source: string) {
+  if (!Array.isArray(value)) {
+    throw new Error(`${source}: ${name} must be an array of fields, got ${JSON.stringify(value)}`);
+  }
+  if (length !== "any" && value.length !== length) {
+    throw new Error(
+      `${source}: ${name} has ${value.length} fields, but ${expected} has ${length}. ` +
+        "It was probably generated for another circuit or version, regenerate it with `yarn data`",
+    );
+  }
+  value.forEach((field, i) => assertField(field, `${name}[${i}]`, source));
+}
+
+const toFr = (field: string | Fr) => (field instanceof Fr ? field : new Fr(BigInt(field)));
+
+/** Converts artifacts read from JSON to fields, without checking them. See `validateProofArtifacts`. */
+export function parseProofArtifacts(json: RecursiveProofArtifactsJson): RecursiveProofArtifacts {
+  return {
+    vkAsFields: json.vkAsFields.map(toFr),
+    vkHash: toFr(json.vkHash),
+    proofAsFields: json.proofAsFields.map(toFr),
+    publicInputs: json.publicInputs.map(toFr),
+  };
+}
+
+export function serializeProofArtifacts(artifacts: RecursiveProofArtifacts): RecursiveProofArtifactsJson {
+  return {
+    vkAsFields: artifacts.vkAsFields.map(String),
+    vkHash: artifacts.vkHash.toString(),
+    proofAsFields: artifacts.proofAsFields.map(String),
+    publicInputs: artifacts.publicInputs.map(String),
+  };
+}
+
+/**
+ * Checks that `value` is recursive proof artifacts the contract can verify: every entry a field element, as a string
+ * or an `Fr`, and the VK, proof and public inputs of the lengths `increment` takes. Returns them as fields. `source`
+ * names where the value came from in errors.
+ */
+export function validateProofArtifacts(
+  value: unknown,
+  source: string,
+  { publicInputs = CONTRACT_PUBLIC_INPUTS }: ValidateProofArtifactsOptions = {},
+): RecursiveProofArtifacts {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`${source}: expected an object with vkAsFields, vkHash, proofAsFields and publicInputs`);
+  }
+  const artifacts = value as Record<string, unknown>;
+  assertFields(artifacts.vkAsFields, "vkAsFields", HONK_VK_SIZE, "UltraHonkVerificationKey", source);
+  assertField(artifacts.vkHash, "vkHash", source);
+  assertFields(artifacts.proofAsFields, "proofAsFields", HONK_PROOF_SIZE, "UltraHonkZKProof", source);
+  assertFields(artifacts.publicInputs, "publicInputs", publicInputs, "the contract's public inputs", source);
+  return {
+    vkAsFields: (artifacts.vkAsFields as (string | Fr)[]).map(toFr),
+    vkHash: toFr(artifacts.vkHash),
+    proofAsFields: (artifacts.proofAsFields as (string | Fr)[]).map(toFr),
+    publicInputs: (artifacts.publicInputs as (string | Fr)[]).map(toFr),
+  };
+}
+
+/** Reads artifacts written by `yarn data`, such as `data.json`, and validates them with `validateProofArtifacts`. */
+export async function loadProofArtifacts(
+  path: string,
+  opts?: ValidateProofArtifactsOptions,
+): Promise<RecursiveProofArtifacts> {
+  let value: unknown;
+  try {
+    value = JSON.parse(await readFile(path, "utf8"));
+  } catch (error) {
+    throw new Error(`${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  return validateProofArtifacts(value, path, opts);
+}
+
+/** Which verifier the proof is made for, as accepted by `UltraHonkBackend.generateProof`. */
+export type VerifierTarget = NonNullable<NonNullable<Parameters<UltraHonkBackend["generateProof"]>[1]>["verifierTarget"]>;
+
+export interface GenerateRecursiveProofOptions extends ProveRecursivelyOptions {
+  /** Writes the artifacts as JSON to this path, creating its directory. Nothing is written if omitted. */
+  outputPath?: string;
+  /**
+   * Directory proofs are cached in, see `scripts/proof_cache.ts`. Defaults to `DEFAULT_PROOF_CACHE_DIR`, pass `false`
+   * to always prove.
+   */
+  cacheDir?: string | false;
+}
+
+export async function loadCompiledCircuit(circuitPath: string): Promise<CompiledCircuit> {
+  return JSON.parse(await readFile(circuitPath, "utf8"));
+}
+
+/** Reads circuit inputs from a `.toml` file such as Prover.toml, or from a `.json` file. */
+export async function readCircuitInputs(inputsPath: string): Promise<CircuitInputs> {
+  const contents = await readFile(inputsPath, "utf8");
+  switch (extname(inputsPath).toLowerCase()) {
+    case ".toml":
+      return parseToml(contents) as CircuitInputs;
+    case ".json":
+      return JSON.parse(contents);
+    default:
+      throw new Error(`Unsupported inputs file ${inputsPath}, expected .toml or .json`);
+  }
+}
+
+/**
+ * Executes the circuit at `circuitPath` with `inputs`, proves it for recursive verification and returns the proof,
+ * verification key and public inputs as fields, ready to be passed to the contract.
+ *
+ * Artifacts already proven for the same circuit bytecode, inputs and verifier target are read from the proof cache
+ * instead, and cached proofs of older versions of the circuit are deleted.
+ *
+ * Throws if the inputs don't satisfy the circuit, e.g. `x == y` for hello_circuit, since no proof can be made for them.
+ */
+export async function generateRecursiveProofArtifacts(
+  circuitPath: string,
+  inputs: CircuitInputs,
+  {
+    threads = 1,
+    outputPath,
+    log = console.log,
+    verifierTarget = "noir-recursive",
+    cacheDir = DEFAULT_PROOF_CACHE_DIR,
+  }: GenerateRecursiveProofOptions = {},
+): Promise<RecursiveProofArtifacts> {
+  const circuit = await loadCompiledCircuit(circuitPath);
+  const cacheEntry: ProofCacheEntry = {
+    circuitName: basename(circuitPath, ".json"),
+    circuit,
+    inputs,
+    verifierTarget,
+    bbVersion: await installedBbJsVersion(),
+  };
+
+  let artifacts: RecursiveProofArtifactsJson | undefined;
+  if (cacheDir) {
+    const stale = await invalidateStaleProofs(cacheDir, cacheEntry.circuitName, circuit);
+    if (stale > 0) {
+      log(`${circuitPath} changed, dropped ${stale} outdated version(s) of its cached proofs`);
+    }
+    artifacts = await readCachedProof(cacheDir, cacheEntry);
+    if (artifacts) {
+      log(`Using cached proof from ${cacheDir}`);
+    }
+  }
+
+  if (!artifacts) {
+    log(`Proving ${circuitPath}`);
+    artifacts = await proveRecursively(circuit, inputs, { threads, verifierTarget, log });
+    if (cacheDir) {
+      await writeCachedProof(cacheDir, cacheEntry, artifacts);
+    }
+  }
+
+  if (outputPath) {
+    await mkdir(dirname(outputPath), { recursive: true });
+    await writeFile(outputPath, JSON.stringify(artifacts, null, 2));
+    log(`Wrote ${outputPath}`);
+  }
+
+  return parseProofArtifacts(artifacts);
+}
@@ -0,0 +1,82 @@
+import { Noir } from "@aztec/noir-noir_js";
+import { Barretenberg, UltraHonkBackend, deflattenFields } from "@aztec/bb.js";
+import type {
+  CircuitInputs,
+  CompiledCircuit,
+  RecursiveProofArtifactsJson,
+  VerifierTarget,
+} from "./recursive_proof_artifacts";
+
+// The proving steps shared by `generateRecursiveProofArtifacts` and the Vite app. Nothing here may touch the file
+// system, so the page can import it.
+
+export interface ProveRecursivelyOptions {
+  /** Number of threads Barretenberg proves with. Defaults to 1. */
+  threads?: number;
+  /** Defaults to "noir-recursive", the target `verify_honk_proof` accepts. */
+  verifierTarget?: VerifierTarget;
+  /** Progress log, defaults to `console.log`. */
+  log?: (message: string) => void;
+}
+
+/**
+ * Executes `circuit` with `inputs`, proves and verifies it, and returns the proof, verification key and public inputs
+ * as the fields the contract takes.
+ *
+ * Throws if the inputs don't satisfy the circuit, since no proof can be made for them, or if the proof doesn't verify.
+ */
+export async function proveRecursively(
+  circuit: CompiledCircuit,
+  inputs: CircuitInputs,
+  { threads = 1, verifierTarget = "noir-recursive", log = console.log }: ProveRecursivelyOptions = {},
+): Promise<RecursiveProofArtifactsJson> {
+  // Initialize Barretenberg API first
+  const barretenbergAPI = await Barretenberg.new({ threads });
+  try {
+    // Execute the circuit to get the witness
+    log("Executing circuit...");
+    const { witness } = await new Noir(circuit).execute(inputs);
+
+    // Initialize backend - pass Barretenberg instance as second argument
+    const backend = new UltraHonkBackend(circuit.bytecode, barretenbergAPI);
+
+    // Generate the proof for the verifier target, recursive by default
+    log(`Generating proof on ${threads} thread(s)...`);
+    const proofData = await backend.generateProof(witness, { verifierTarget });
+
+    // Verify the proof
+    const isValid = await backend.verifyProof(proofData, { verifierTarget });
+    log(`Proof verification: ${isValid ? "SUCCESS" : "FAILED"}`);
+    if (!isValid) {
+      throw new Error("Generated proof failed verification");
+    }
+
+    // Generate recursive proof artifacts (proof as fields, vk as fields, vk hash)
+    const recursiveArtifacts = await backend.generateRecursiveProofArtifacts(
+      proofData.proof,
+      proofData.publicInputs.length,
+    );
+
+    // If proofAsFields is empty, use deflattenFields to convert proof bytes to fields
+    let proofAsFields = recursiveArtifacts.proofAsFields;
+    if (proofAsFields.length === 0) {
+      log("Using deflattenFields to convert proof...");
+      proofAsFields = deflattenFields(proofData.proof).map((f) => f.toString());
+    }
+
+    const artifacts: RecursiveProofArtifactsJson = {
+      vkAsFields: recursiveArtifacts.vkAsFields,
+      vkHash: recursiveArtifacts.vkHash,
+      proofAsFields,
+      publicInputs: proofData.publicInputs.map((p: string) => p.toString()),
+    };
+
+    log(`VK size: ${artifacts.vkAsFields.length}`);
+    log(`Proof size: ${artifacts.proofAsFields.length}`);
+    log(`Public inputs: ${artifacts.publicInputs.length}`);
+
+    return artifacts;
+  } finally {
+    await barretenbergAPI.destroy();
+  }
+}
@@ -0,0 +1,123 @@
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import { createAztecNodeClient } from "@aztec/aztec.js/node";
+import { parseArgs } from "node:util";
+import { exit } from "process";
+import { ValueNotEqualContract } from "../contract/artifacts/ValueNotEqual";
+import {
+  type RecursiveProofArtifacts,
+  generateRecursiveProofArtifacts,
+  loadProofArtifacts,
+  readCircuitInputs,
+} from "./recursive_proof_artifacts";
+import {
+  circuitId,
+  getGenericVkCircuitId,
+  getVkCircuitId,
+  registerGenericVk,
+  registerVk,
+  revokeVk,
+} from "./vk_registry";
+import { NODE_URL, getSponsoredPaymentMethod, setupWallet } from "./wallet";
+
+const USAGE = `Usage: yarn register-vk --contract <address> --admin-secret <field> --admin-salt <field> [options]
+
+Adds a circuit's verification key to a deployed ValueNotEqual contract, or revokes it.
+
+Options:
+  --contract <address>     ValueNotEqual contract to update
+  --admin-secret <field>   Secret key of the contract's admin account
+  --admin-salt <field>     Salt of the contract's admin account
+  --circuit-id <name>      Name the VK is registered under, e.g. hello_circuit_v2 (required unless --revoke)
+  --artifacts <path>       Proof artifacts to take the VK from, as written by \`yarn data\` (default: data.json)
+  --circuit <path>         Prove this compiled circuit to get its VK instead of reading --artifacts
+  --inputs <path>          Inputs to prove --circuit with, as .toml or .json
+  --generic                Accept the VK in increment_with_<N>_public_inputs instead of increment
+  --revoke                 Revoke the VK instead of adding it
+  -h, --help               Show this message
+`;
+
+const { values } = parseArgs({
+  options: {
+    contract: { type: "string" },
+    "admin-secret": { type: "string" },
+    "admin-salt": { type: "string" },
+    "circuit-id": { type: "string" },
+    artifacts: { type: "string", default: "data.json" },
+    circuit: { type: "string" },
+    inputs: { type: "string" },
+    generic: { type: "boolean", default: false },
+    revoke: { type: "boolean", default: false },
+    help: { type: "boolean", short: "h" },
+  },
+});
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  exit(1);
+}
+
+async function loadArtifacts(): Promise<RecursiveProofArtifacts> {
+  if (values.circuit) {
+    if (!values.inputs) {
+      fail("--inputs is required with --circuit");
+    }
+    return generateRecursiveProofArtifacts(values.circuit, await readCircuitInputs(values.inputs));
+  }
+  // Only the VK is registered, so the artifacts may be of a circuit with any number of public inputs
+  return loadProofArtifacts(values.artifacts, { publicInputs: "any" });
+}
+
+async function main() {
+  if (values.help) {
+    console.log(USAGE);
+    exit(0);
+  }
+  if (!values.contract || !values["admin-secret"] || !values["admin-salt"]) {
+    fail("--contract, --admin-secret and --admin-salt are required");
+  }
+  if (!values.revoke && !values["circuit-id"]) {
+    fail("--circuit-id is required to add a VK");
+  }
+
+  const { vkHash } = await loadArtifacts();
+
+  const wallet = await setupWallet();
+  const admin = await wallet.createSchnorrAccount(
+    Fr.fromHexString(values["admin-secret"]),
+    Fr.fromHexString(values["admin-salt"]),
+  );
+  const contractAddress = AztecAddress.fromString(values.contract);
+  const instance = await createAztecNodeClient(NODE_URL).getContract(contractAddress);
+  if (!instance) {
+    fail(`No contract found at ${values.contract}`);
+  }
+  await wallet.registerContract(instance, ValueNotEqualContract.artifact);
+  const contract = await ValueNotEqualContract.at(contractAddress, wallet);
+
+  const opts = { from: admin.address, fee: { paymentMethod: await getSponsoredPaymentMethod() } };
+  if (values.revoke) {
+    await revokeVk(contract, vkHash, opts);
+    console.log(`Revoked VK ${vkHash}`);
+  } else if (values.generic) {
+    await registerGenericVk(contract, circuitId(values["circuit-id"]!), { vkHash }, opts);
+    console.log(`Registered VK ${vkHash} as ${values["circuit-id"]} for the generic entrypoints`);
+  } else {
+    await registerVk(contract, circuitId(values["circuit-id"]!), { vkHash }, opts);
+    console.log(`Registered VK ${vkHash} as ${values["circuit-id"]}`);
+  }
+
+  const registeredAs = await getVkCircuitId(contract, vkHash, admin.address);
+  console.log(`Circuit id of ${vkHash} for increment: ${registeredAs?.toString() ?? "not registered"}`);
+  const genericRegisteredAs = await getGenericVkCircuitId(contract, vkHash, admin.address);
+  console.log(
+    `Circuit id of ${vkHash} for the generic entrypoints: ${genericRegisteredAs?.toString() ?? "not registered"}`,
+  );
+}
+
+main()
+  .then(() => exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    exit(1);
+  });
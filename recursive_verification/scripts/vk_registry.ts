@@ -0,0 +1,72 @@
+import type { FieldLike } from "@aztec/aztec.js/abi";
+import type { AztecAddress } from "@aztec/aztec.js/addresses";
+import type { SendInteractionOptions } from "@aztec/aztec.js/contracts";
+import { Fr } from "@aztec/aztec.js/fields";
+import type { ValueNotEqualContract } from "../contract/artifacts/ValueNotEqual";
+import type { RecursiveProofArtifacts } from "./recursive_proof_artifacts";
+
+/**
+ * Encodes a circuit name, e.g. "hello_circuit_v2", as the circuit id field the contract tags VKs with. Names are
+ * stored as their UTF-8 bytes, so they must fit in 31 bytes.
+ */
+export function circuitId(name: string): Fr {
+  const bytes = Buffer.from(name, "utf8");
+  if (bytes.length === 0 || bytes.length > 31) {
+    throw new Error(`Circuit name must be 1 to 31 bytes long, got "${name}"`);
+  }
+  return new Fr(BigInt(`0x${bytes.toString("hex")}`));
+}
+
+/** Circuit id of `circuit/`, the VK in `data.json` is registered under it. */
+export const HELLO_CIRCUIT_ID = circuitId("hello_circuit");
+
+/** Accepts proofs made with the VK of `artifacts`. Must be sent by the contract's admin. */
+export async function registerVk(
+  contract: ValueNotEqualContract,
+  id: FieldLike,
+  artifacts: Pick<RecursiveProofArtifacts, "vkHash">,
+  opts: SendInteractionOptions,
+) {
+  return contract.methods.add_vk(id, artifacts.vkHash).send(opts).wait();
+}
+
+/**
+ * Accepts proofs made with the VK of `artifacts` in the `increment_with_<N>_public_inputs` entrypoints, and not in
+ * `increment`. Must be sent by the contract's admin.
+ */
+export async function registerGenericVk(
+  contract: ValueNotEqualContract,
+  id: FieldLike,
+  artifacts: Pick<RecursiveProofArtifacts, "vkHash">,
+  opts: SendInteractionOptions,
+) {
+  return contract.methods.add_generic_vk(id, artifacts.vkHash).send(opts).wait();
+}
+
+/**
+ * Stops accepting proofs made with the VK hashing to `vkHash`, whichever entrypoints it was registered for. Must be
+ * sent by the contract's admin.
+ */
+export async function revokeVk(contract: ValueNotEqualContract, vkHash: FieldLike, opts: SendInteractionOptions) {
+  return contract.methods.revoke_vk(vkHash).send(opts).wait();
+}
+
+/** Returns the circuit id `vkHash` is registered under, or undefined if `increment` doesn't accept it. */
+export async function getVkCircuitId(
+  contract: ValueNotEqualContract,
+  vkHash: FieldLike,
+  from: AztecAddress,
+): Promise<Fr | undefined> {
+  const id = new Fr(await contract.methods.get_vk_circuit_id(vkHash).simulate({ from }));
+  return id.isZero() ? undefined : id;
+}
+
+/** Returns the circuit id `vkHash` is registered under, or undefined if the generic entrypoints don't accept it. */
+export async function getGenericVkCircuitId(
+  contract: ValueNotEqualContract,
+  vkHash: FieldLike,
+  from: AztecAddress,
+): Promise<Fr | undefined> {
+  const id = new Fr(await contract.methods.get_generic_vk_circuit_id(vkHash).simulate({ from }));
+  return id.isZero() ? undefined : id;
+}
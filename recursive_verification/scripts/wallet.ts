@@ -0,0 +1,54 @@
+import { createAztecNodeClient } from "@aztec/aztec.js/node";
+import { SponsoredFeePaymentMethod } from "@aztec/aztec.js/fee";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import { SponsoredFPCContract } from "@aztec/noir-contracts.js/SponsoredFPC";
+import { getPXEConfig } from "@aztec/pxe/config";
+import { TestWallet } from "@aztec/test-wallet/server";
+import { rm } from "node:fs/promises";
+import { getSponsoredFPCInstance } from "./sponsored_fpc.js";
+
+export const NODE_URL = "http://localhost:8080";
+
+export async function getSponsoredPaymentMethod() {
+  const sponsoredFPC = await getSponsoredFPCInstance();
+  return new SponsoredFeePaymentMethod(sponsoredFPC.address);
+}
+
+/** Creates a proving TestWallet with a fresh PXE in `pxe/`, and the sponsored FPC registered. */
+export const setupWallet = async (): Promise<TestWallet> => {
+  try {
+    const aztecNode = await createAztecNodeClient(NODE_URL);
+    const config = getPXEConfig();
+    await rm("pxe", { recursive: true, force: true });
+    config.dataDirectory = "pxe";
+    config.proverEnabled = true;
+    let wallet = await TestWallet.create(aztecNode, config);
+    await wallet.registerContract(await getSponsoredFPCInstance(), SponsoredFPCContract.artifact);
+
+    return wallet;
+  } catch (error) {
+    console.error("Failed to setup local network:", error);
+    throw error;
+  }
+};
+
+/**
+ * Creates a Schnorr account in the wallet and deploys it, paying with the sponsored FPC. Keep the secret and salt to
+ * load the account in another wallet later, e.g. to manage verification keys with `yarn register-vk`.
+ */
+export async function deployAccount(
+  wallet: TestWallet,
+  secret: Fr = Fr.random(),
+  salt: Fr = Fr.random(),
+): Promise<AztecAddress> {
+  const account = await wallet.createSchnorrAccount(secret, salt);
+  const manager = await account.getDeployMethod();
+  await manager
+    .send({
+      from: AztecAddress.ZERO,
+      fee: { paymentMethod: await getSponsoredPaymentMethod() },
+    })
+    .deployed();
+  return account.address;
+}
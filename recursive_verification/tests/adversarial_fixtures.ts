@@ -0,0 +1,29 @@
+import { Fr } from "@aztec/aztec.js/fields"
+import type { RecursiveProofArtifacts } from '../scripts/recursive_proof_artifacts'
+
+// Tampered copies of valid proof artifacts, for the negative-path tests. Each changes exactly one thing.
+
+const bump = (field: Fr) => field.add(Fr.ONE)
+
+/** The proof with one field changed, past the public inputs it carries. */
+export function flipProofField(artifacts: RecursiveProofArtifacts, index = 100): RecursiveProofArtifacts {
+  return { ...artifacts, proofAsFields: artifacts.proofAsFields.map((f, i) => (i === index ? bump(f) : f)) }
+}
+
+/** A VK that no longer hashes to `vkHash`, which still names the registered VK. */
+export function withMismatchedVk(artifacts: RecursiveProofArtifacts, index = 20): RecursiveProofArtifacts {
+  return { ...artifacts, vkAsFields: artifacts.vkAsFields.map((f, i) => (i === index ? bump(f) : f)) }
+}
+
+/** A VK hash the contract's registry doesn't hold. */
+export function withUnregisteredVkHash(artifacts: RecursiveProofArtifacts): RecursiveProofArtifacts {
+  return { ...artifacts, vkHash: bump(artifacts.vkHash) }
+}
+
+/** The proof with the public inputs of `other`, another valid proof of the same circuit. */
+export function withPublicInputsOf(
+  artifacts: RecursiveProofArtifacts,
+  other: RecursiveProofArtifacts,
+): RecursiveProofArtifacts {
+  return { ...artifacts, publicInputs: [...other.publicInputs] }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, test } from "vitest"
+import { countPublicInputs, selectIncrementEntrypoint } from '../scripts/entrypoints'
+import type { CompiledCircuit } from '../scripts/recursive_proof_artifacts'
+
+// Only reads circuit ABIs, no network or proving needed
+
+type Abi = CompiledCircuit['abi']
+
+const field = { kind: 'field' } as const
+
+const circuit = (abi: Partial<Abi>) =>
+  ({ bytecode: '', abi: { parameters: [], return_type: null, error_types: {}, ...abi } }) as unknown as CompiledCircuit
+
+describe("Entrypoint selection", () => {
+  test("should count hello_circuit's public inputs: y, owner and nonce", () => {
+    const hello = circuit({
+      parameters: [
+        { name: 'x', type: field, visibility: 'private' },
+        { name: 'y', type: field, visibility: 'public' },
+        { name: 'owner', type: field, visibility: 'public' },
+        { name: 'nonce', type: field, visibility: 'public' },
+      ],
+    } as Partial<Abi>)
+
+    expect(countPublicInputs(hello.abi)).toBe(3)
+    expect(selectIncrementEntrypoint(hello)).toBe('increment_with_3_public_inputs')
+  })
+
+  test("should pick the 0 public inputs entrypoint for private-only circuits", () => {
+    const privateOnly = circuit({
+      parameters: [{ name: 'secret', type: field, visibility: 'private' }],
+    } as Partial<Abi>)
+
+    expect(selectIncrementEntrypoint(privateOnly)).toBe('increment_with_0_public_inputs')
+  })
+
+  test("should flatten arrays, structs and the return value", () => {
+    const nested = circuit({
+      parameters: [
+        { name: 'root', type: field, visibility: 'public' },
+        { name: 'path', type: { kind: 'array', length: 4, type: field }, visibility: 'public' },
+        {
+          name: 'point',
+          type: {
+            kind: 'struct',
+            path: 'Point',
+            fields: [
+              { name: 'x', type: field },
+              { name: 'y', type: { kind: 'integer', sign: 'unsigned', width: 32 } },
+            ],
+          },
+          visibility: 'public',
+        },
+        { name: 'witness', type: { kind: 'array', length: 8, type: field }, visibility: 'private' },
+      ],
+      return_type: { abi_type: { kind: 'tuple', fields: [field, { kind: 'boolean' }] }, visibility: 'public' },
+    } as Partial<Abi>)
+
+    expect(countPublicInputs(nested.abi)).toBe(1 + 4 + 2 + 2)
+    expect(selectIncrementEntrypoint(nested)).toBe('increment_with_9_public_inputs')
+  })
+
+  test("should reject circuits with more public inputs than the contract supports", () => {
+    const tooMany = circuit({
+      parameters: [{ name: 'inputs', type: { kind: 'array', length: 17, type: field }, visibility: 'public' }],
+    } as Partial<Abi>)
+
+    expect(() => selectIncrementEntrypoint(tooMany)).toThrow('at most 16')
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, expect, test, beforeAll, afterAll } from "vitest"
+import type { AztecAddress } from "@aztec/aztec.js/addresses"
+import { createAztecNodeClient } from "@aztec/aztec.js/node"
+import { SponsoredFeePaymentMethod } from "@aztec/aztec.js/fee"
+import { TestWallet } from "@aztec/test-wallet/server"
+import { SponsoredFPCContract } from "@aztec/noir-contracts.js/SponsoredFPC"
+import { getPXEConfig } from "@aztec/pxe/config"
+import { ValueNotEqualContract } from '../contract/artifacts/ValueNotEqual'
+import { getSponsoredFPCInstance } from '../scripts/sponsored_fpc'
+import { generateHelloCircuitProof, getHelloCircuitVk } from '../scripts/hello_circuit'
+import type { RecursiveProofArtifacts } from '../scripts/recursive_proof_artifacts'
+import { HELLO_CIRCUIT_ID } from '../scripts/vk_registry'
+import { deployAccount } from '../scripts/wallet'
+import { flipProofField, withMismatchedVk, withPublicInputsOf, withUnregisteredVkHash } from './adversarial_fixtures'
+
+const NODE_URL = 'http://localhost:8080'
+
+// Test timeout - proof generation/verification can take several minutes
+const TEST_TIMEOUT = 600000 // 10 minutes
+
+// Every bad proof must be stopped, and by the layer meant to stop it:
+// - witness generation, when no proof of the statement exists
+// - simulation, for the contract's own checks (VK registry, owner binding)
+// - the tx proof, for the proof itself: simulating a private function doesn't check the proofs it verifies
+//   recursively, they are only checked once the wallet proves the tx and the node verifies that proof
+describe("Recursive Verification negative paths", () => {
+  let testWallet: TestWallet
+  let ownerAddress: AztecAddress
+  let otherAddress: AztecAddress
+  let valueNotEqualContract: ValueNotEqualContract
+  let sponsoredPaymentMethod: SponsoredFeePaymentMethod
+  let validProof: RecursiveProofArtifacts
+
+  const incrementWith = (artifacts: RecursiveProofArtifacts) =>
+    valueNotEqualContract.methods.increment(
+      ownerAddress,
+      artifacts.vkHash,
+      artifacts.vkAsFields,
+      artifacts.proofAsFields,
+      artifacts.publicInputs,
+    )
+
+  const expectRejectedInSimulation = async (artifacts: RecursiveProofArtifacts, message: string) => {
+    await expect(incrementWith(artifacts).simulate({ from: ownerAddress })).rejects.toThrow(message)
+  }
+
+  const expectRejectedWhenProven = async (artifacts: RecursiveProofArtifacts) => {
+    await expect(incrementWith(artifacts).simulate({ from: ownerAddress })).resolves.toBeDefined()
+    await expect(
+      incrementWith(artifacts).send({ from: ownerAddress, fee: { paymentMethod: sponsoredPaymentMethod } }).wait()
+    ).rejects.toThrow(/invalid proof/i)
+  }
+
+  const expectCounter = async (expected: bigint) => {
+    const counterValue = await valueNotEqualContract.methods.get_counter(ownerAddress).simulate({ from: ownerAddress })
+    expect(counterValue).toBe(expected)
+  }
+
+  beforeAll(async () => {
+    console.log(`Connecting to Aztec Node at ${NODE_URL}`)
+    const aztecNode = await createAztecNodeClient(NODE_URL)
+
+    const sponsoredFPC = await getSponsoredFPCInstance()
+    sponsoredPaymentMethod = new SponsoredFeePaymentMethod(sponsoredFPC.address)
+
+    const config = getPXEConfig()
+    config.proverEnabled = true
+    testWallet = await TestWallet.create(aztecNode, config)
+    await testWallet.registerContract(sponsoredFPC, SponsoredFPCContract.artifact)
+
+    console.log('Deploying owner and second account...')
+    ownerAddress = await deployAccount(testWallet)
+    otherAddress = await deployAccount(testWallet)
+
+    const { vkHash } = await getHelloCircuitVk()
+    valueNotEqualContract = await ValueNotEqualContract.deploy(
+      testWallet,
+      0,
+      ownerAddress,
+      ownerAddress,
+      HELLO_CIRCUIT_ID,
+      vkHash
+    )
+      .send({ from: ownerAddress, fee: { paymentMethod: sponsoredPaymentMethod } })
+      .deployed()
+    console.log("Contract deployed at address:", valueNotEqualContract.address.toString())
+
+    validProof = await generateHelloCircuitProof(ownerAddress)
+  }, TEST_TIMEOUT)
+
+  afterAll(async () => {
+    if (testWallet) {
+      await testWallet.stop()
+    }
+  })
+
+  test("should fail at witness generation for x == y", async () => {
+    // The cache only holds valid proofs, but skip it to be sure the circuit is executed
+    await expect(
+      generateHelloCircuitProof(ownerAddress, { x: 2, y: 2 }, { cacheDir: false })
+    ).rejects.toThrow(/Cannot satisfy constraint/)
+  }, TEST_TIMEOUT)
+
+  test("should fail in simulation for a VK hash missing from the registry", async () => {
+    await expectRejectedInSimulation(withUnregisteredVkHash(validProof), 'VK hash is not registered')
+  }, TEST_TIMEOUT)
+
+  test("should fail in simulation for public inputs of a proof bound to another owner", async () => {
+    const otherOwnerProof = await generateHelloCircuitProof(otherAddress)
+
+    await expectRejectedInSimulation(withPublicInputsOf(validProof, otherOwnerProof), 'Proof is bound to another owner')
+  }, TEST_TIMEOUT)
+
+  test("should fail when proven for a proof with one flipped field", async () => {
+    await expectRejectedWhenProven(flipProofField(validProof))
+  }, TEST_TIMEOUT)
+
+  test("should fail when proven for a VK that doesn't hash to the registered vk_hash", async () => {
+    await expectRejectedWhenProven(withMismatchedVk(validProof))
+  }, TEST_TIMEOUT)
+
+  test("should fail when proven for public inputs swapped with another proof's", async () => {
+    // Same owner, so the contract's checks pass, but the proof was made for the other nonce
+    const otherProof = await generateHelloCircuitProof(ownerAddress)
+
+    await expectRejectedWhenProven(withPublicInputsOf(validProof, otherProof))
+  }, TEST_TIMEOUT)
+
+  test("should still accept the untampered proof", async () => {
+    // None of the rejected txs spent its nullifier or touched the counter
+    await expectCounter(0n)
+
+    await incrementWith(validProof).send({ from: ownerAddress, fee: { paymentMethod: sponsoredPaymentMethod } }).wait()
+
+    await expectCounter(1n)
+  }, TEST_TIMEOUT)
+})
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "vitest"
+import { type ProfileReport, compareProfileReports, formatProfileReport } from '../scripts/profile_report'
+
+// Pure functions over reports, no network or proving needed
+
+const report = (label: string, incrementGates: number, provingMs?: number): ProfileReport => ({
+  label,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  versions: { '@aztec/bb.js': '3.0.0-devnet.6-patch.1' },
+  steps: [
+    { functionName: 'ValueNotEqual:increment', gateCount: incrementGates, witgenMs: 100 },
+    { functionName: 'private_kernel_init', gateCount: 50000, witgenMs: 20 },
+  ],
+  totalGateCount: incrementGates + 50000,
+  totalWitgenMs: 120,
+  provingMs,
+})
+
+describe("Profile reports", () => {
+  test("should render steps and totals as a table", () => {
+    const table = formatProfileReport(report('recursion', 700000, 15000))
+
+    expect(table).toContain('recursion, proving: 15000 ms')
+    expect(table).toMatch(/ValueNotEqual:increment\s+700000\s+100/)
+    expect(table).toMatch(/total\s+750000\s+120/)
+    expect(formatProfileReport(report('recursion', 700000))).toContain('proving: not measured')
+  })
+
+  test("should flag metrics that grew by more than the threshold", () => {
+    const baseline = new Map([['recursion', report('recursion', 700000, 15000)]])
+    const current = new Map([['recursion', report('recursion', 770000, 15300)]])
+
+    const diffs = compareProfileReports(baseline, current, 5)
+    const regressions = diffs.filter((diff) => diff.regression)
+
+    expect(regressions.map(({ functionName, metric }) => `${functionName} ${metric}`)).toEqual([
+      'ValueNotEqual:increment gates',
+      'total gates',
+    ])
+    expect(regressions[0].changePercent).toBeCloseTo(10)
+    // Proving grew by 2%, below the threshold
+    expect(diffs.find((diff) => diff.metric === 'proving (ms)')?.regression).toBe(false)
+  })
+
+  test("should only compare labels present in both directories", () => {
+    const baseline = new Map([['recursion', report('recursion', 700000)]])
+    const current = new Map([['benchmark-batch', report('benchmark-batch', 1400000)]])
+
+    expect(compareProfileReports(baseline, current, 5)).toEqual([])
+  })
+})
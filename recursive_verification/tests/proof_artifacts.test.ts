@@ -0,0 +1,83 @@
+import { describe, expect, test, beforeAll, afterAll } from "vitest"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { Fr } from "@aztec/aztec.js/fields"
+import {
+  CONTRACT_PUBLIC_INPUTS,
+  loadProofArtifacts,
+  serializeProofArtifacts,
+  validateProofArtifacts,
+} from '../scripts/recursive_proof_artifacts'
+import { SAMPLE_ARTIFACTS } from './sample_artifacts'
+
+// Only reads files, no network or proving needed
+
+describe("Proof artifacts validation", () => {
+  let dir: string
+
+  const artifacts = SAMPLE_ARTIFACTS
+
+  const write = async (name: string, contents: unknown) => {
+    const path = join(dir, name)
+    await writeFile(path, typeof contents === 'string' ? contents : JSON.stringify(contents))
+    return path
+  }
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'proof-artifacts-'))
+  })
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test("should load well-formed artifacts", async () => {
+    const loaded = await loadProofArtifacts(await write('valid.json', artifacts))
+
+    expect(serializeProofArtifacts(loaded)).toEqual(artifacts)
+    expect(loaded.publicInputs).toHaveLength(CONTRACT_PUBLIC_INPUTS)
+    expect(loaded.vkHash).toBeInstanceOf(Fr)
+  })
+
+  test("should accept fields as well as strings", () => {
+    const fields = { ...artifacts, publicInputs: [new Fr(2), new Fr(0x1234), new Fr(1)] }
+
+    expect(serializeProofArtifacts(validateProofArtifacts(fields, 'fields'))).toEqual(artifacts)
+  })
+
+  test("should name the file when it isn't JSON", async () => {
+    const path = await write('truncated.json', JSON.stringify(artifacts).slice(0, 100))
+
+    await expect(loadProofArtifacts(path)).rejects.toThrow(path)
+  })
+
+  test("should reject a VK or proof of the wrong length", () => {
+    expect(() => validateProofArtifacts({ ...artifacts, vkAsFields: artifacts.vkAsFields.slice(1) }, 'data.json')).toThrow(
+      'data.json: vkAsFields has 114 fields, but UltraHonkVerificationKey has 115',
+    )
+    expect(() => validateProofArtifacts({ ...artifacts, proofAsFields: [] }, 'data.json')).toThrow(
+      'data.json: proofAsFields has 0 fields, but UltraHonkZKProof has 508',
+    )
+  })
+
+  test("should reject artifacts generated before the owner and nonce were public inputs", () => {
+    expect(() => validateProofArtifacts({ ...artifacts, publicInputs: ['0x2'] }, 'data.json')).toThrow(
+      "data.json: publicInputs has 1 fields, but the contract's public inputs has 3",
+    )
+    expect(validateProofArtifacts({ ...artifacts, publicInputs: ['0x2'] }, 'data.json', { publicInputs: 'any' }).publicInputs).toEqual([new Fr(2)])
+  })
+
+  test("should reject entries that aren't field elements", () => {
+    expect(() => validateProofArtifacts({ ...artifacts, vkHash: 42 }, 'data.json')).toThrow(
+      'data.json: vkHash is not a field element, got 42',
+    )
+    expect(() => validateProofArtifacts({ ...artifacts, publicInputs: ['0x2', 'owner', '0x1'] }, 'data.json')).toThrow(
+      'data.json: publicInputs[1] is not a field element, got "owner"',
+    )
+    expect(() => validateProofArtifacts({ ...artifacts, publicInputs: ['0x2', Fr.MODULUS.toString(), '0x1'] }, 'data.json')).toThrow(
+      'data.json: publicInputs[1] is not below the field modulus',
+    )
+    expect(() => validateProofArtifacts([], 'data.json')).toThrow('expected an object')
+  })
+})
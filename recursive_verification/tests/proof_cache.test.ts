@@ -0,0 +1,101 @@
+import { describe, expect, test, beforeEach, afterEach } from "vitest"
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import type { ProofCacheEntry } from '../scripts/proof_cache'
+import {
+  bytecodeHash,
+  clearProofCache,
+  installedBbJsVersion,
+  invalidateStaleProofs,
+  proofCacheKey,
+  readCachedProof,
+  writeCachedProof,
+} from '../scripts/proof_cache'
+import type { CompiledCircuit } from '../scripts/recursive_proof_artifacts'
+import { SAMPLE_ARTIFACTS as data } from './sample_artifacts'
+import packageJson from '../package.json'
+
+// Only touches the file system, no network or proving needed
+
+const circuit = (bytecode: string) => ({ bytecode }) as CompiledCircuit
+
+describe("Proof cache", () => {
+  let cacheDir: string
+
+  const entry: ProofCacheEntry = {
+    circuitName: 'hello_circuit',
+    circuit: circuit('H4sIAAAAAAAA/v1'),
+    inputs: { x: 1, y: 2 },
+    verifierTarget: 'noir-recursive',
+    bbVersion: '3.0.0-devnet.6-patch.1',
+  }
+
+  beforeEach(async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), 'proof-cache-'))
+  })
+
+  afterEach(async () => {
+    await rm(cacheDir, { recursive: true, force: true })
+  })
+
+  test("should key entries by inputs regardless of key order and number or string values", () => {
+    const key = (inputs: ProofCacheEntry['inputs'], verifierTarget = 'noir-recursive', bbVersion = entry.bbVersion) =>
+      proofCacheKey(inputs, verifierTarget, bbVersion)
+
+    expect(key({ x: 1, y: 2 })).toBe(key({ y: '2', x: '1' }))
+    expect(key({ x: 1, y: 2 })).not.toBe(key({ x: 1, y: 3 }))
+    expect(key({ x: 1, y: 2 })).not.toBe(key({ x: 1, y: 2 }, 'evm'))
+    expect(key({ x: 1, y: 2 })).not.toBe(key({ x: 1, y: 2 }, 'noir-recursive', '3.0.2'))
+  })
+
+  test("should take the bb.js version from the installed package", async () => {
+    expect(await installedBbJsVersion()).toBe(packageJson.dependencies['@aztec/bb.js'])
+  })
+
+  test("should read back what was written for the same circuit and inputs only", async () => {
+    expect(await readCachedProof(cacheDir, entry)).toBeUndefined()
+
+    await writeCachedProof(cacheDir, entry, data)
+
+    expect(await readCachedProof(cacheDir, entry)).toEqual(data)
+    expect(await readCachedProof(cacheDir, { ...entry, inputs: { x: 1, y: 3 } })).toBeUndefined()
+    expect(await readCachedProof(cacheDir, { ...entry, circuit: circuit('H4sIAAAAAAAA/v2') })).toBeUndefined()
+    expect(await readCachedProof(cacheDir, { ...entry, bbVersion: '3.0.2' })).toBeUndefined()
+  })
+
+  test("should treat a truncated or invalid entry as not proven", async () => {
+    await writeCachedProof(cacheDir, entry, { ...data, proofAsFields: data.proofAsFields.slice(1) })
+    expect(await readCachedProof(cacheDir, entry)).toBeUndefined()
+
+    await writeCachedProof(cacheDir, entry, data)
+    const dir = join(cacheDir, entry.circuitName, bytecodeHash(entry.circuit))
+    const [file] = await readdir(dir)
+    const contents = await readFile(join(dir, file), 'utf8')
+    await writeFile(join(dir, file), contents.slice(0, contents.length / 2))
+    expect(await readCachedProof(cacheDir, entry)).toBeUndefined()
+
+    await writeCachedProof(cacheDir, entry, data)
+    expect(await readCachedProof(cacheDir, entry)).toEqual(data)
+  })
+
+  test("should drop the proofs of older bytecode once the circuit changes", async () => {
+    const changed = { ...entry, circuit: circuit('H4sIAAAAAAAA/v2') }
+    await writeCachedProof(cacheDir, entry, data)
+    await writeCachedProof(cacheDir, changed, data)
+
+    expect(await invalidateStaleProofs(cacheDir, entry.circuitName, changed.circuit)).toBe(1)
+
+    expect(await readdir(join(cacheDir, entry.circuitName))).toEqual([bytecodeHash(changed.circuit)])
+    expect(await readCachedProof(cacheDir, changed)).toEqual(data)
+    expect(await invalidateStaleProofs(cacheDir, 'never_proven', changed.circuit)).toBe(0)
+  })
+
+  test("should clear every entry", async () => {
+    await writeCachedProof(cacheDir, entry, data)
+
+    await clearProofCache(cacheDir)
+
+    expect(await readCachedProof(cacheDir, entry)).toBeUndefined()
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, expect, test, beforeAll, afterAll } from "vitest"
-import type { FieldLike } from "@aztec/aztec.js/abi"
+import { Fr } from "@aztec/aztec.js/fields"
 import { TxStatus } from "@aztec/aztec.js/tx"
 import { AztecAddress } from "@aztec/aztec.js/addresses"
 import { createAztecNodeClient } from "@aztec/aztec.js/node"
@@ -9,7 +9,14 @@ import { SponsoredFPCContract } from "@aztec/noir-contracts.js/SponsoredFPC"
 import { getPXEConfig } from "@aztec/pxe/config"
 import { ValueNotEqualContract } from '../contract/artifacts/ValueNotEqual'
 import { getSponsoredFPCInstance } from '../scripts/sponsored_fpc'
-import data from '../data.json'
+import { BATCH_SIZE, buildBatchIncrementArgs } from '../scripts/batch_args'
+import { type RecursiveProofArtifacts, parseProofArtifacts } from '../scripts/recursive_proof_artifacts'
+import { generateHelloCircuitProof, getHelloCircuitVk } from '../scripts/hello_circuit'
+import { HELLO_CIRCUIT_ID, registerGenericVk, revokeVk } from '../scripts/vk_registry'
+import { incrementWithProof, selectIncrementEntrypoint } from '../scripts/entrypoints'
+import { loadCompiledCircuit } from '../scripts/recursive_proof_artifacts'
+import { HELLO_CIRCUIT_PATH } from '../scripts/hello_circuit'
+import { SAMPLE_ARTIFACTS } from './sample_artifacts'
 
 const NODE_URL = 'http://localhost:8080'
 
@@ -22,6 +29,20 @@ describe("Recursive Verification", () => {
   let user1Address: AztecAddress
   let valueNotEqualContract: ValueNotEqualContract
   let sponsoredPaymentMethod: SponsoredFeePaymentMethod
+  let vkHash: Fr
+
+  // Proofs are bound to the account they are redeemed for and can only be redeemed once, so every increment
+  // gets a fresh one
+  const incrementWithFreshProof = async (contract: ValueNotEqualContract, owner: AztecAddress, proof?: RecursiveProofArtifacts) => {
+    const { vkAsFields, proofAsFields, publicInputs } = proof ?? await generateHelloCircuitProof(owner)
+    return contract.methods.increment(
+      owner,
+      vkHash,
+      vkAsFields,
+      proofAsFields,
+      publicInputs,
+    ).send({ from: owner, fee: { paymentMethod: sponsoredPaymentMethod } }).wait()
+  }
 
   beforeAll(async () => {
     // Setup TestWallet with PXE
@@ -57,6 +78,9 @@ describe("Recursive Verification", () => {
     const accounts = await testWallet.getAccounts()
     ownerAddress = accounts[0].item
     console.info('Owner address:', ownerAddress.toString())
+
+    // The VK only depends on the circuit, and is reused from the proof cache once it has been proven
+    vkHash = (await getHelloCircuitVk()).vkHash
   }, TEST_TIMEOUT)
 
   afterAll(async () => {
@@ -77,7 +101,9 @@ describe("Recursive Verification", () => {
       testWallet,
       initialValue,
       ownerAddress,
-      data.vkHash as unknown as FieldLike
+      ownerAddress,
+      HELLO_CIRCUIT_ID,
+      vkHash
     )
       .send(sendOpts)
       .deployed()
@@ -89,18 +115,8 @@ describe("Recursive Verification", () => {
   }, TEST_TIMEOUT)
 
   test("should verify proof and increment counter", async () => {
-    const sendOpts = {
-      from: ownerAddress,
-      fee: { paymentMethod: sponsoredPaymentMethod },
-    }
-
-    // Call increment with proof data (vk_hash is read from storage)
-    const tx = await valueNotEqualContract.methods.increment(
-      ownerAddress,
-      data.vkAsFields as unknown as FieldLike[],
-      data.proofAsFields as unknown as FieldLike[],
-      data.publicInputs as unknown as FieldLike[],
-    ).send(sendOpts).wait()
+    // Call increment with proof data (vk_hash is checked against the registry)
+    const tx = await incrementWithFreshProof(valueNotEqualContract, ownerAddress)
 
     expect(tx).toBeDefined()
     expect(tx.txHash).toBeDefined()
@@ -122,33 +138,145 @@ describe("Recursive Verification", () => {
   }, TEST_TIMEOUT)
 
   test("should verify proof and increment counter again", async () => {
+    // Second increment to verify the contract works multiple times
+    const tx = await incrementWithFreshProof(valueNotEqualContract, ownerAddress)
+
+    expect(tx).toBeDefined()
+    expect(tx.txHash).toBeDefined()
+    expect(tx.status).toBe(TxStatus.SUCCESS)
+
+    // Check counter value is now 12
+    const counterValue = await valueNotEqualContract.methods.get_counter(
+      ownerAddress
+    ).simulate({ from: ownerAddress })
+
+    expect(counterValue).toBe(12n)
+
+    console.log(`Counter value after second increment: ${counterValue}`)
+  }, TEST_TIMEOUT)
+
+  test("should verify a batch of proofs and increment counter once per proof", async () => {
     const sendOpts = {
       from: ownerAddress,
       fee: { paymentMethod: sponsoredPaymentMethod },
     }
 
-    // Second increment to verify the contract works multiple times
-    const tx = await valueNotEqualContract.methods.increment(
+    const artifacts: RecursiveProofArtifacts[] = []
+    for (let i = 0; i < BATCH_SIZE; i++) {
+      artifacts.push(await generateHelloCircuitProof(ownerAddress, { y: 3 + i }))
+    }
+    const { verificationKey, proofs, publicInputs } = buildBatchIncrementArgs(artifacts)
+
+    const tx = await valueNotEqualContract.methods.increment_batch(
       ownerAddress,
-      data.vkAsFields as unknown as FieldLike[],
-      data.proofAsFields as unknown as FieldLike[],
-      data.publicInputs as unknown as FieldLike[],
+      vkHash,
+      verificationKey,
+      proofs,
+      publicInputs,
     ).send(sendOpts).wait()
 
-    expect(tx).toBeDefined()
-    expect(tx.txHash).toBeDefined()
     expect(tx.status).toBe(TxStatus.SUCCESS)
 
-    // Check counter value is now 12
+    // Counter was 12 after the two single increments
     const counterValue = await valueNotEqualContract.methods.get_counter(
       ownerAddress
     ).simulate({ from: ownerAddress })
 
-    expect(counterValue).toBe(12n)
+    expect(counterValue).toBe(12n + BigInt(BATCH_SIZE))
 
-    console.log(`Counter value after second increment: ${counterValue}`)
+    console.log(`Counter value after batch increment: ${counterValue}`)
   }, TEST_TIMEOUT)
 
+  test("should reject a replayed proof", async () => {
+    const proof = await generateHelloCircuitProof(ownerAddress)
+    const tx = await incrementWithFreshProof(valueNotEqualContract, ownerAddress, proof)
+    expect(tx.status).toBe(TxStatus.SUCCESS)
+
+    // The second redemption emits the same nullifier
+    await expect(incrementWithFreshProof(valueNotEqualContract, ownerAddress, proof)).rejects.toThrow(/nullifier/i)
+
+    const counterValue = await valueNotEqualContract.methods.get_counter(
+      ownerAddress
+    ).simulate({ from: ownerAddress })
+
+    expect(counterValue).toBe(13n + BigInt(BATCH_SIZE))
+  }, TEST_TIMEOUT)
+
+  test("should reject a proof redeemed through increment at the generic entrypoints", async () => {
+    const circuit = await loadCompiledCircuit(HELLO_CIRCUIT_PATH)
+    const proof = await generateHelloCircuitProof(ownerAddress)
+    const tx = await incrementWithFreshProof(valueNotEqualContract, ownerAddress, proof)
+    expect(tx.status).toBe(TxStatus.SUCCESS)
+
+    // The hello_circuit VK is only registered for `increment`, so the proof can't skip its owner and nonce checks
+    await expect(
+      incrementWithProof(valueNotEqualContract, circuit, proof)
+        .send({ from: ownerAddress, fee: { paymentMethod: sponsoredPaymentMethod } })
+        .wait()
+    ).rejects.toThrow('VK hash is not registered for the generic entrypoints')
+
+    const counterValue = await valueNotEqualContract.methods.get_counter(
+      ownerAddress
+    ).simulate({ from: ownerAddress })
+
+    expect(counterValue).toBe(14n + BigInt(BATCH_SIZE))
+  }, TEST_TIMEOUT)
+
+  test("should verify a proof through the entrypoint picked from the circuit's ABI", async () => {
+    const circuit = await loadCompiledCircuit(HELLO_CIRCUIT_PATH)
+    expect(selectIncrementEntrypoint(circuit)).toBe('increment_with_3_public_inputs')
+
+    const sendOpts = {
+      from: ownerAddress,
+      fee: { paymentMethod: sponsoredPaymentMethod },
+    }
+
+    // A contract accepting the hello_circuit VK in the generic entrypoints instead of `increment`
+    const genericContract = await ValueNotEqualContract.deploy(
+      testWallet,
+      0,
+      ownerAddress,
+      ownerAddress,
+      HELLO_CIRCUIT_ID,
+      vkHash
+    )
+      .send(sendOpts)
+      .deployed()
+    await revokeVk(genericContract, vkHash, sendOpts)
+    await registerGenericVk(genericContract, HELLO_CIRCUIT_ID, { vkHash }, sendOpts)
+
+    // Credits the sender, who the proof happens to be bound to
+    const nonce = Fr.random()
+    const proof = await generateHelloCircuitProof(ownerAddress, { nonce })
+    const tx = await incrementWithProof(genericContract, circuit, proof).send(sendOpts).wait()
+    expect(tx.status).toBe(TxStatus.SUCCESS)
+
+    // The statement is nullified, so neither the same proof nor a new proof of the same inputs can be redeemed again
+    await expect(
+      incrementWithProof(genericContract, circuit, proof).send(sendOpts).wait()
+    ).rejects.toThrow(/nullifier/i)
+    const reproven = await generateHelloCircuitProof(ownerAddress, { nonce }, { cacheDir: false })
+    expect(reproven.proofAsFields).not.toEqual(proof.proofAsFields)
+    await expect(
+      incrementWithProof(genericContract, circuit, reproven).send(sendOpts).wait()
+    ).rejects.toThrow(/nullifier/i)
+
+    const counterValue = await genericContract.methods.get_counter(
+      ownerAddress
+    ).simulate({ from: ownerAddress })
+
+    expect(counterValue).toBe(1n)
+  }, TEST_TIMEOUT)
+
+  test("should reject a batch mixing verification keys", async () => {
+    const artifacts = parseProofArtifacts(SAMPLE_ARTIFACTS)
+    const otherVk = { ...artifacts, vkAsFields: artifacts.vkAsFields.map((f, i) => (i === 0 ? f.add(Fr.ONE) : f)) }
+
+    expect(() => buildBatchIncrementArgs([artifacts, ...Array(BATCH_SIZE - 1).fill(otherVk)])).toThrow(
+      'different verification key',
+    )
+  })
+
   test("should maintain separate counters for different users", async () => {
     const initialValue = 5
 
@@ -175,18 +303,15 @@ describe("Recursive Verification", () => {
       testWallet,
       initialValue,
       user1Address,
-      data.vkHash as unknown as FieldLike
+      user1Address,
+      HELLO_CIRCUIT_ID,
+      vkHash
     )
       .send(sendOpts)
       .deployed()
 
     // Increment user1's counter
-    await user1Contract.methods.increment(
-      user1Address,
-      data.vkAsFields as unknown as FieldLike[],
-      data.proofAsFields as unknown as FieldLike[],
-      data.publicInputs as unknown as FieldLike[],
-    ).send(sendOpts).wait()
+    await incrementWithFreshProof(user1Contract, user1Address)
 
     // Check user1's counter
     const user1Counter = await user1Contract.methods.get_counter(
@@ -198,4 +323,35 @@ describe("Recursive Verification", () => {
     console.log(`User1 counter value: ${user1Counter}`)
   }, TEST_TIMEOUT)
 
+  test("should reject a proof made for another owner", async () => {
+    const ownerProof = await generateHelloCircuitProof(ownerAddress)
+
+    await expect(
+      incrementWithFreshProof(valueNotEqualContract, user1Address, ownerProof)
+    ).rejects.toThrow('Proof is bound to another owner')
+  }, TEST_TIMEOUT)
+
+  test("should accept proofs of different owners with the same nonce", async () => {
+    // The nullifier covers the owner, so redeeming one owner's proof doesn't spend the nonce for the other
+    const nonce = Fr.random()
+    const ownerTx = await incrementWithFreshProof(
+      valueNotEqualContract,
+      ownerAddress,
+      await generateHelloCircuitProof(ownerAddress, { nonce })
+    )
+    expect(ownerTx.status).toBe(TxStatus.SUCCESS)
+
+    const user1Tx = await incrementWithFreshProof(
+      valueNotEqualContract,
+      user1Address,
+      await generateHelloCircuitProof(user1Address, { nonce })
+    )
+    expect(user1Tx.status).toBe(TxStatus.SUCCESS)
+
+    const user1Counter = await valueNotEqualContract.methods.get_counter(
+      user1Address
+    ).simulate({ from: user1Address })
+    expect(user1Counter).toBe(1n)
+  }, TEST_TIMEOUT)
+
 })
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { Fr } from "@aztec/aztec.js/fields"
+import { HONK_PROOF_SIZE, HONK_VK_SIZE, type RecursiveProofArtifactsJson } from '../scripts/recursive_proof_artifacts'
+
+// Artifacts of the shape the contract takes, for the tests that never send them. Not a valid proof.
+
+const fields = (length: number, offset: number) => Array.from({ length }, (_, i) => new Fr(offset + i).toString())
+
+export const SAMPLE_ARTIFACTS: RecursiveProofArtifactsJson = {
+  vkAsFields: fields(HONK_VK_SIZE, 1),
+  vkHash: new Fr(0x7e57n).toString(),
+  proofAsFields: fields(HONK_PROOF_SIZE, 1000),
+  // y, owner and nonce
+  publicInputs: [new Fr(2), new Fr(0x1234), new Fr(1)].map(String),
+}
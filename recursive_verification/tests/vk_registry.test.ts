@@ -0,0 +1,142 @@
+import { describe, expect, test, beforeAll, afterAll } from "vitest"
+import type { Fr } from "@aztec/aztec.js/fields"
+import { TxStatus } from "@aztec/aztec.js/tx"
+import type { AztecAddress } from "@aztec/aztec.js/addresses"
+import { createAztecNodeClient } from "@aztec/aztec.js/node"
+import { SponsoredFeePaymentMethod } from "@aztec/aztec.js/fee"
+import { TestWallet } from "@aztec/test-wallet/server"
+import { SponsoredFPCContract } from "@aztec/noir-contracts.js/SponsoredFPC"
+import { getPXEConfig } from "@aztec/pxe/config"
+import { ValueNotEqualContract } from '../contract/artifacts/ValueNotEqual'
+import { getSponsoredFPCInstance } from '../scripts/sponsored_fpc'
+import {
+  HELLO_CIRCUIT_ID,
+  circuitId,
+  getGenericVkCircuitId,
+  getVkCircuitId,
+  registerGenericVk,
+  registerVk,
+  revokeVk,
+} from '../scripts/vk_registry'
+import { deployAccount } from '../scripts/wallet'
+import { generateHelloCircuitProof, getHelloCircuitVk } from '../scripts/hello_circuit'
+
+const NODE_URL = 'http://localhost:8080'
+
+// Test timeout - proof generation/verification can take several minutes
+const TEST_TIMEOUT = 600000 // 10 minutes
+
+describe("Verification key registry", () => {
+  let testWallet: TestWallet
+  let adminAddress: AztecAddress
+  let otherAddress: AztecAddress
+  let valueNotEqualContract: ValueNotEqualContract
+  let sponsoredPaymentMethod: SponsoredFeePaymentMethod
+
+  let vkHash: Fr
+
+  // Each proof can only be redeemed once, so every increment gets a fresh one
+  const incrementAsAdmin = async () => {
+    const proof = await generateHelloCircuitProof(adminAddress)
+    return valueNotEqualContract.methods.increment(
+      adminAddress,
+      vkHash,
+      proof.vkAsFields,
+      proof.proofAsFields,
+      proof.publicInputs,
+    ).send({ from: adminAddress, fee: { paymentMethod: sponsoredPaymentMethod } }).wait()
+  }
+
+  beforeAll(async () => {
+    console.log(`Connecting to Aztec Node at ${NODE_URL}`)
+    const aztecNode = await createAztecNodeClient(NODE_URL)
+
+    const sponsoredFPC = await getSponsoredFPCInstance()
+    sponsoredPaymentMethod = new SponsoredFeePaymentMethod(sponsoredFPC.address)
+
+    const config = getPXEConfig()
+    config.proverEnabled = true
+    testWallet = await TestWallet.create(aztecNode, config)
+    await testWallet.registerContract(sponsoredFPC, SponsoredFPCContract.artifact)
+
+    console.log('Deploying admin and second account...')
+    adminAddress = await deployAccount(testWallet)
+    otherAddress = await deployAccount(testWallet)
+
+    vkHash = (await getHelloCircuitVk()).vkHash
+
+    valueNotEqualContract = await ValueNotEqualContract.deploy(
+      testWallet,
+      0,
+      adminAddress,
+      adminAddress,
+      HELLO_CIRCUIT_ID,
+      vkHash
+    )
+      .send({ from: adminAddress, fee: { paymentMethod: sponsoredPaymentMethod } })
+      .deployed()
+    console.log("Contract deployed at address:", valueNotEqualContract.address.toString())
+  }, TEST_TIMEOUT)
+
+  afterAll(async () => {
+    if (testWallet) {
+      await testWallet.stop()
+    }
+  })
+
+  test("should register the constructor's VK under its circuit id", async () => {
+    const id = await getVkCircuitId(valueNotEqualContract, vkHash, adminAddress)
+    expect(id?.toString()).toBe(HELLO_CIRCUIT_ID.toString())
+
+    const tx = await incrementAsAdmin()
+    expect(tx.status).toBe(TxStatus.SUCCESS)
+  }, TEST_TIMEOUT)
+
+  test("should only let the admin manage VKs", async () => {
+    await expect(
+      revokeVk(valueNotEqualContract, vkHash, {
+        from: otherAddress,
+        fee: { paymentMethod: sponsoredPaymentMethod },
+      })
+    ).rejects.toThrow('Only the admin can manage verification keys')
+  }, TEST_TIMEOUT)
+
+  test("should reject proofs made with a revoked VK", async () => {
+    await revokeVk(valueNotEqualContract, vkHash, {
+      from: adminAddress,
+      fee: { paymentMethod: sponsoredPaymentMethod },
+    })
+    expect(await getVkCircuitId(valueNotEqualContract, vkHash, adminAddress)).toBeUndefined()
+
+    await expect(incrementAsAdmin()).rejects.toThrow('VK hash is not registered')
+
+    const counterValue = await valueNotEqualContract.methods.get_counter(adminAddress).simulate({ from: adminAddress })
+    expect(counterValue).toBe(1n)
+  }, TEST_TIMEOUT)
+
+  test("should accept the VK again once it is re-registered under a new circuit id", async () => {
+    const newCircuitId = circuitId('hello_circuit_v2')
+    await registerVk(valueNotEqualContract, newCircuitId, { vkHash }, {
+      from: adminAddress,
+      fee: { paymentMethod: sponsoredPaymentMethod },
+    })
+    const id = await getVkCircuitId(valueNotEqualContract, vkHash, adminAddress)
+    expect(id?.toString()).toBe(newCircuitId.toString())
+
+    const tx = await incrementAsAdmin()
+    expect(tx.status).toBe(TxStatus.SUCCESS)
+
+    const counterValue = await valueNotEqualContract.methods.get_counter(adminAddress).simulate({ from: adminAddress })
+    expect(counterValue).toBe(2n)
+  }, TEST_TIMEOUT)
+
+  test("should not register a VK for both increment and the generic entrypoints", async () => {
+    await expect(
+      registerGenericVk(valueNotEqualContract, circuitId('hello_circuit_generic'), { vkHash }, {
+        from: adminAddress,
+        fee: { paymentMethod: sponsoredPaymentMethod },
+      })
+    ).rejects.toThrow('VK hash is already registered')
+    expect(await getGenericVkCircuitId(valueNotEqualContract, vkHash, adminAddress)).toBeUndefined()
+  }, TEST_TIMEOUT)
+})
@@ -0,0 +1,212 @@
+import { useState } from 'react'
+import type { ValueNotEqualContract } from '../../contract/artifacts/ValueNotEqual'
+import type { RecursiveProofArtifacts } from '../../scripts/recursive_proof_artifacts'
+import { generateHelloCircuitProof, toArtifactsJson, type HelloCircuitInputs } from './proof'
+import { type BrowserWallet, connectWallet, getCounter, increment, loadValueNotEqual } from './wallet'
+import './App.css'
+
+interface IncrementResult {
+  proof: RecursiveProofArtifacts;
+  txHash: string;
+  counterBefore: bigint;
+  counterAfter: bigint;
+}
+
+function App() {
+  const [wallet, setWallet] = useState<BrowserWallet | null>(null);
+  const [contract, setContract] = useState<ValueNotEqualContract | null>(null);
+  const [contractAddress, setContractAddress] = useState('');
+  const [counter, setCounter] = useState<bigint | null>(null);
+  const [formData, setFormData] = useState<HelloCircuitInputs>({ x: '1', y: '2' });
+
+  const [result, setResult] = useState<IncrementResult | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Runs one step of the flow, showing its progress and any error it throws
+  const run = async (step: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await step();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setStatus(null);
+      setIsBusy(false);
+    }
+  };
+
+  const handleConnect = () => run(async () => {
+    setStatus('Creating wallet and deploying account, this takes a while...');
+    setWallet(await connectWallet());
+  });
+
+  const handleLoadContract = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!wallet) return;
+    return run(async () => {
+      setStatus('Loading contract...');
+      const loaded = await loadValueNotEqual(wallet, contractAddress.trim());
+      setContract(loaded);
+      setCounter(await getCounter(loaded, wallet));
+      setResult(null);
+    });
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!wallet || !contract) return;
+    return run(async () => {
+      setResult(null);
+      const counterBefore = await getCounter(contract, wallet);
+      const proof = await generateHelloCircuitProof(formData, wallet.account, setStatus);
+
+      setStatus('Sending increment, the wallet proves the tx before sending it...');
+      const txHash = await increment(contract, wallet, proof);
+
+      const counterAfter = await getCounter(contract, wallet);
+      setCounter(counterAfter);
+      setResult({ proof, txHash, counterBefore, counterAfter });
+    });
+  };
+
+  return (
+    <div className="app-container">
+      <h1>Aztec Recursive Verification</h1>
+
+      <div className="proof-form">
+        <h3>1. Wallet</h3>
+        {wallet ? (
+          <div className="data-display">
+            <div className="data-info">
+              <span>Account</span>
+              <button className="copy-button" onClick={() => navigator.clipboard.writeText(wallet.account.toString())}>
+                Copy
+              </button>
+            </div>
+            <div className="hex-display">{wallet.account.toString()}</div>
+          </div>
+        ) : (
+          <>
+            <p className="step-hint">
+              Creates a TestWallet in this page and deploys a new account, paid for by the sponsored FPC.
+            </p>
+            <button className="submit-button" onClick={handleConnect} disabled={isBusy}>
+              Connect
+            </button>
+          </>
+        )}
+      </div>
+
+      {wallet && (
+        <form onSubmit={handleLoadContract} className="proof-form">
+          <h3>2. Contract</h3>
+          <div className="form-group">
+            <label htmlFor="contractAddress">ValueNotEqual Address (printed by yarn recursion):</label>
+            <input
+              type="text"
+              id="contractAddress"
+              name="contractAddress"
+              value={contractAddress}
+              onChange={e => setContractAddress(e.target.value)}
+              placeholder="0x..."
+              required
+            />
+          </div>
+          <button type="submit" className="submit-button" disabled={isBusy}>
+            Load Contract
+          </button>
+          {counter !== null && (
+            <p className="step-hint">Your counter: {counter.toString()}</p>
+          )}
+        </form>
+      )}
+
+      {contract && (
+        <form onSubmit={handleSubmit} className="proof-form">
+          <h3>3. Prove x ≠ y and Increment</h3>
+          <div className="form-group">
+            <label htmlFor="x">x (private):</label>
+            <input type="text" id="x" name="x" value={formData.x} onChange={handleInputChange} required />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="y">y (public):</label>
+            <input type="text" id="y" name="y" value={formData.y} onChange={handleInputChange} required />
+          </div>
+
+          <button type="submit" className="submit-button" disabled={isBusy}>
+            {isBusy ? 'Working...' : 'Generate Proof and Increment'}
+          </button>
+        </form>
+      )}
+
+      {status && <p className="status-line">{status}</p>}
+
+      {error && (
+        <div className="error-message">
+          <h3>Error</h3>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {result && (
+        <div className="results-container">
+          <h2>Increment Results</h2>
+
+          <div className="result-section">
+            <h3>Counter</h3>
+            <div className="counter-values">
+              <div>
+                <span>Before</span>
+                <strong>{result.counterBefore.toString()}</strong>
+              </div>
+              <div>
+                <span>After</span>
+                <strong>{result.counterAfter.toString()}</strong>
+              </div>
+            </div>
+          </div>
+
+          <div className="result-section">
+            <h3>Transaction</h3>
+            <div className="verification-status verified">✅ Proof verified on-chain</div>
+            <div className="hex-display">{result.txHash}</div>
+          </div>
+
+          <div className="result-section">
+            <h3>Recursive Proof Artifacts</h3>
+            <div className="data-display">
+              <div className="data-info">
+                <span>
+                  VK: {result.proof.vkAsFields.length} fields, proof: {result.proof.proofAsFields.length} fields
+                </span>
+                <button
+                  className="copy-button"
+                  onClick={() => navigator.clipboard.writeText(JSON.stringify(toArtifactsJson(result.proof), null, 2))}
+                >
+                  Copy as JSON
+                </button>
+              </div>
+              <pre>
+                {JSON.stringify({ vkHash: result.proof.vkHash.toString(), publicInputs: result.proof.publicInputs.map(String) }, null, 2)}
+              </pre>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default App
@@ -0,0 +1,46 @@
+import type { AztecAddress } from '@aztec/aztec.js/addresses'
+import { Fr } from '@aztec/aztec.js/fields'
+import type { CompiledCircuit } from '@aztec/noir-noir_js'
+import circuit from '../../circuit/target/hello_circuit.json' with { type: 'json' }
+import type { RecursiveProofArtifacts, RecursiveProofArtifactsJson } from '../../scripts/recursive_proof_artifacts'
+import { proveRecursively } from '../../scripts/recursive_prover'
+
+const toFr = (field: string) => new Fr(BigInt(field))
+
+export interface HelloCircuitInputs {
+  x: string
+  y: string
+}
+
+/**
+ * Browser version of `generateRecursiveProofArtifacts` for hello_circuit: proves x != y for `owner` with a random
+ * nonce, and returns the fields `increment` takes. Throws if x == y, since no proof exists for them.
+ */
+export const generateHelloCircuitProof = async (
+  { x, y }: HelloCircuitInputs,
+  owner: AztecAddress,
+  log: (message: string) => void,
+): Promise<RecursiveProofArtifacts> => {
+  // Several threads need SharedArrayBuffer, which is only available when the page is cross-origin isolated
+  const threads = self.crossOriginIsolated ? navigator.hardwareConcurrency : 1
+  const artifacts = await proveRecursively(
+    circuit as CompiledCircuit,
+    { x, y, owner: owner.toString(), nonce: Fr.random().toString() },
+    { threads, log },
+  )
+
+  return {
+    vkAsFields: artifacts.vkAsFields.map(toFr),
+    vkHash: toFr(artifacts.vkHash),
+    proofAsFields: artifacts.proofAsFields.map(toFr),
+    publicInputs: artifacts.publicInputs.map(toFr),
+  }
+}
+
+/** The artifacts as `yarn data` writes them, e.g. to copy them out of the page. */
+export const toArtifactsJson = (artifacts: RecursiveProofArtifacts): RecursiveProofArtifactsJson => ({
+  vkAsFields: artifacts.vkAsFields.map(String),
+  vkHash: artifacts.vkHash.toString(),
+  proofAsFields: artifacts.proofAsFields.map(String),
+  publicInputs: artifacts.publicInputs.map(String),
+})
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Aztec node the wallet connects to, http://localhost:8080 by default. */
+  readonly VITE_AZTEC_NODE_URL?: string
+}
@@ -0,0 +1,74 @@
+import { AztecAddress } from '@aztec/aztec.js/addresses'
+import { SponsoredFeePaymentMethod } from '@aztec/aztec.js/fee'
+import { Fr } from '@aztec/aztec.js/fields'
+import { type AztecNode, createAztecNodeClient } from '@aztec/aztec.js/node'
+import { SponsoredFPCContract } from '@aztec/noir-contracts.js/SponsoredFPC'
+import { getPXEConfig } from '@aztec/pxe/config'
+import { TestWallet } from '@aztec/test-wallet/client'
+import { ValueNotEqualContract } from '../../contract/artifacts/ValueNotEqual'
+import type { RecursiveProofArtifacts } from '../../scripts/recursive_proof_artifacts'
+import { getSponsoredFPCInstance } from '../../scripts/sponsored_fpc'
+
+const NODE_URL = import.meta.env.VITE_AZTEC_NODE_URL ?? 'http://localhost:8080'
+
+export interface BrowserWallet {
+  node: AztecNode
+  wallet: TestWallet
+  account: AztecAddress
+  paymentMethod: SponsoredFeePaymentMethod
+}
+
+/**
+ * Creates a proving TestWallet in the browser and deploys a fresh Schnorr account with it, paying with the sponsored
+ * FPC. The account only lives as long as the page.
+ */
+export const connectWallet = async (): Promise<BrowserWallet> => {
+  const node = createAztecNodeClient(NODE_URL)
+  const config = getPXEConfig()
+  config.proverEnabled = true
+  const wallet = await TestWallet.create(node, config)
+
+  const sponsoredFPC = await getSponsoredFPCInstance()
+  await wallet.registerContract(sponsoredFPC, SponsoredFPCContract.artifact)
+  const paymentMethod = new SponsoredFeePaymentMethod(sponsoredFPC.address)
+
+  const account = await wallet.createSchnorrAccount(Fr.random(), Fr.random())
+  await (await account.getDeployMethod())
+    .send({ from: AztecAddress.ZERO, fee: { paymentMethod } })
+    .deployed()
+
+  return { node, wallet, account: account.address, paymentMethod }
+}
+
+/** Registers the ValueNotEqual contract deployed at `address`, e.g. by `yarn recursion`, with the wallet. */
+export const loadValueNotEqual = async (
+  { node, wallet }: BrowserWallet,
+  address: string,
+): Promise<ValueNotEqualContract> => {
+  const contractAddress = AztecAddress.fromString(address)
+  const instance = await node.getContract(contractAddress)
+  if (!instance) {
+    throw new Error(`No contract is deployed at ${address}`)
+  }
+  await wallet.registerContract(instance, ValueNotEqualContract.artifact)
+  return ValueNotEqualContract.at(contractAddress, wallet)
+}
+
+export const getCounter = async (contract: ValueNotEqualContract, { account }: BrowserWallet): Promise<bigint> =>
+  contract.methods.get_counter(account).simulate({ from: account })
+
+/** Sends `increment` with `proof` for the connected account and returns the tx hash once it is mined. */
+export const increment = async (
+  contract: ValueNotEqualContract,
+  { account, paymentMethod }: BrowserWallet,
+  proof: RecursiveProofArtifacts,
+): Promise<string> => {
+  const receipt = await contract.methods.increment(
+    account,
+    proof.vkHash,
+    proof.vkAsFields,
+    proof.proofAsFields,
+    proof.publicInputs,
+  ).send({ from: account, fee: { paymentMethod } }).wait()
+  return receipt.txHash.toString()
+}
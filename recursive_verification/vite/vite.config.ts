@@ -0,0 +1,24 @@
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react-swc'
+import { nodePolyfills } from 'vite-plugin-node-polyfills'
+
+// Cross-origin isolation gives the page SharedArrayBuffer, which bb.js needs to prove on several threads
+const crossOriginIsolationHeaders = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'require-corp',
+}
+
+// https://vite.dev/config/
+export default defineConfig({
+  plugins: [react(), nodePolyfills()],
+  server: { headers: crossOriginIsolationHeaders },
+  // `yarn preview` serves the production build, which needs the same headers
+  preview: { headers: crossOriginIsolationHeaders },
+  // ../scripts/recursive_prover.ts proves for the page too, its imports must resolve to the app's packages rather than
+  // the scripts' node_modules
+  resolve: { dedupe: ['@aztec/bb.js', '@aztec/noir-noir_js'] },
+  optimizeDeps: {
+    include: ['pino', 'pino/browser'],
+    exclude: ['@aztec/noir-noirc_abi', '@aztec/noir-acvm_js', '@aztec/bb.js', '@aztec/noir-noir_js']
+  },
+})
@@ -4,5 +4,6 @@ export default defineConfig({
   test: {
     testTimeout: 600000, // 10 minutes - proof generation/verification can take several minutes
     hookTimeout: 600000, // 10 minutes for beforeAll/afterAll hooks
+    fileParallelism: false, // each test file proves with its own wallet, running them side by side exhausts memory
   },
 })